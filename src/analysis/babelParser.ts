@@ -0,0 +1,35 @@
+import { parse } from '@babel/parser';
+import _traverse from '@babel/traverse';
+import * as t from '@babel/types';
+
+// @babel/traverse is CommonJS; under native ESM the default import is the module object
+export const traverse = ((_traverse as any).default || _traverse) as typeof _traverse;
+
+// Files the Babel-based analyses understand
+export const BABEL_EXTENSIONS = ['.js', '.ts', '.jsx', '.tsx', '.mjs'];
+
+/**
+ * Parses JavaScript or TypeScript (including JSX) into a Babel AST. Throws on syntax errors;
+ * with errorRecovery, only on errors Babel cannot recover from.
+ */
+export function parseSource(content: string, options: { errorRecovery?: boolean } = {}): t.File {
+  return parse(content, {
+    sourceType: 'module',
+    errorRecovery: options.errorRecovery ?? false,
+    allowImportExportEverywhere: true,
+    allowReturnOutsideFunction: true,
+    plugins: [
+      'jsx',
+      'typescript',
+      'decorators-legacy',
+      'classProperties',
+      'objectRestSpread',
+      'functionBind',
+      'exportDefaultFrom',
+      'exportNamespaceFrom',
+      'dynamicImport',
+      'nullishCoalescingOperator',
+      'optionalChaining'
+    ]
+  });
+}
@@ -0,0 +1,72 @@
+import { Graph, GraphEdge, GraphNode, findCycles, reachableSubgraph } from './graph.js';
+import { SymbolDefinition, SymbolTable } from './symbols.js';
+
+export interface CallGraphNode extends GraphNode {
+  name: string;
+  kind: SymbolDefinition['kind'];
+  file: string;
+  line: number;
+}
+
+export interface CallGraphEdge extends GraphEdge {
+  calls: number;
+  sites: string[]; // file:line of each call
+}
+
+export interface CallGraph extends Graph<CallGraphNode, CallGraphEdge> {
+  roots: string[]; // Node ids the graph was filtered to, if any
+  cycles: string[][];
+}
+
+/**
+ * Function-level call graph from the resolved call sites of a symbol table.
+ * Without a root it covers every function that calls or is called; with one
+ * it keeps what the root's definitions reach within `depth` calls.
+ */
+export function buildCallGraph(table: SymbolTable, rootSymbol?: string, depth: number = Infinity): CallGraph {
+  const nodes = new Map<string, CallGraphNode>();
+  const edges = new Map<string, CallGraphEdge>();
+
+  const addNode = (definition: SymbolDefinition): string => {
+    const node = nodes.get(definitionId(definition)) ?? toNode(definition);
+    nodes.set(node.id, node);
+    return node.id;
+  };
+
+  for (const site of table.callSites()) {
+    const from = addNode(site.caller);
+    const to = addNode(site.callee);
+    const key = `${from}\0${to}`;
+    const edge = edges.get(key) ?? { from, to, calls: 0, sites: [] };
+    edge.calls++;
+    edge.label = edge.calls > 1 ? `${edge.calls}×` : undefined;
+    edge.sites.push(`${site.file}:${site.line}`);
+    edges.set(key, edge);
+  }
+
+  // A root that calls nothing and is never called still shows up on its own
+  const roots = rootSymbol ? table.findDefinitions(rootSymbol).map(addNode) : [];
+
+  let graph: Graph<CallGraphNode, CallGraphEdge> = { nodes: [...nodes.values()], edges: [...edges.values()] };
+  if (rootSymbol) {
+    graph = reachableSubgraph(graph, roots, depth);
+  }
+
+  return { ...graph, roots, cycles: findCycles(graph) };
+}
+
+function definitionId(definition: SymbolDefinition): string {
+  return `${definition.file}#${definition.name}`;
+}
+
+function toNode(definition: SymbolDefinition): CallGraphNode {
+  return {
+    id: definitionId(definition),
+    label: definition.name,
+    group: definition.file,
+    name: definition.name,
+    kind: definition.kind,
+    file: definition.file,
+    line: definition.line
+  };
+}
@@ -0,0 +1,354 @@
+import * as t from '@babel/types';
+import { parseSource, traverse } from './babelParser.js';
+import { hashContent } from './indexCache.js';
+
+/**
+ * A function-like code fragment reduced to the hashes clone detection compares.
+ * Plain data, so fragments can be cached with the rest of a file's analysis.
+ */
+export interface CloneFragment {
+  file: string;
+  name: string;
+  startLine: number;
+  endLine: number;
+  size: number; // AST nodes
+  exactHash: string; // Identical apart from layout, comments and the fragment's own name
+  renamedHash: string; // Identical after consistent identifier renaming and literal stripping
+  shapes: Record<string, number>; // Multiset of subtree shapes (all identifiers and literals blanked)
+}
+
+// Type-1: exact copies, Type-2: renamed identifiers or changed literals, Type-3: copies with edits
+export type CloneType = 1 | 2 | 3;
+
+export interface CloneGroup {
+  type: CloneType;
+  similarity: number; // Lowest pairwise similarity within the group
+  fragments: CloneFragment[];
+}
+
+export interface CloneMatch {
+  fragment: CloneFragment;
+  type: CloneType;
+  similarity: number;
+}
+
+export interface CloneDetectionOptions {
+  minNodes: number;
+  similarityThreshold: number;
+}
+
+interface NormalizedNode {
+  exact: string;
+  renamed: string;
+  shape: string;
+  size: number;
+}
+
+// Subtrees below this size (identifiers, literals, simple member accesses) are too common to signal a clone
+const MIN_SHAPE_SIZE = 4;
+
+// Snippets smaller than this are treated as prose rather than code
+const MIN_SNIPPET_NODES = 12;
+
+// Type annotations do not change behavior, so typed and untyped copies still match
+const TYPE_ANNOTATION_KEYS = new Set(['typeAnnotation', 'returnType', 'typeParameters', 'typeArguments']);
+
+const LITERAL_TYPES = new Set([
+  'StringLiteral', 'NumericLiteral', 'BooleanLiteral', 'BigIntLiteral',
+  'RegExpLiteral', 'TemplateElement', 'JSXText', 'DecimalLiteral'
+]);
+
+/**
+ * Extracts every function, method and arrow function, whatever its size:
+ * detectClones applies minNodes, so cached fragments stay valid when it changes.
+ * Nested functions are fragments of their own.
+ */
+export function extractCloneFragments(ast: t.File, file: string): CloneFragment[] {
+  const fragments: CloneFragment[] = [];
+
+  traverse(ast, {
+    noScope: true, // Scope analysis rejects recovered ASTs with duplicate declarations
+    Function: path => {
+      fragments.push(createFragment(path.node, file, functionName(path.node, path.parent)));
+    }
+  });
+
+  return fragments;
+}
+
+/**
+ * Turns a code snippet (a function or a few statements) into a fragment,
+ * or returns null when the text does not parse as a meaningful piece of code.
+ */
+export function fragmentFromSnippet(code: string): CloneFragment | null {
+  let ast: t.File;
+  try {
+    ast = parseSource(code);
+  } catch {
+    return null;
+  }
+
+  const body = ast.program.body;
+  let root: t.Node = ast.program;
+  if (body.length === 1) {
+    const statement = body[0];
+    if (t.isFunctionDeclaration(statement)) {
+      root = statement;
+    } else if (t.isExpressionStatement(statement) && t.isFunction(statement.expression)) {
+      root = statement.expression;
+    } else if (t.isVariableDeclaration(statement) && statement.declarations.length === 1 &&
+      t.isFunction(statement.declarations[0].init)) {
+      root = statement.declarations[0].init;
+    }
+  }
+
+  const fragment = createFragment(root, 'snippet', 'snippet');
+  return fragment.size >= MIN_SNIPPET_NODES ? fragment : null;
+}
+
+/**
+ * Groups fragments into clone classes. Exact and renamed copies are found by
+ * hash; near-miss copies by the Dice coefficient of their subtree shapes.
+ * Groups made up entirely of fragments nested inside another group's fragments
+ * are dropped, so a cloned function is not reported again for each inner callback.
+ */
+export function detectClones(fragments: CloneFragment[], options: CloneDetectionOptions): CloneGroup[] {
+  const eligible = fragments.filter(fragment => fragment.size >= options.minNodes);
+  const groups: CloneGroup[] = [];
+
+  const buckets = new Map<string, CloneFragment[]>();
+  for (const fragment of eligible) {
+    const bucket = buckets.get(fragment.renamedHash) || [];
+    bucket.push(fragment);
+    buckets.set(fragment.renamedHash, bucket);
+  }
+
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2) continue;
+    const identical = bucket.every(fragment => fragment.exactHash === bucket[0].exactHash);
+    groups.push({ type: identical ? 1 : 2, similarity: 1, fragments: bucket });
+  }
+
+  // Near-miss detection compares one representative per bucket
+  const representatives = [...buckets.values()]
+    .map(bucket => bucket[0])
+    .map(fragment => ({ fragment, total: countShapes(fragment) }))
+    .filter(entry => entry.total > 0)
+    .sort((a, b) => a.total - b.total);
+
+  const parent = representatives.map((_, index) => index);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+  const edges: Array<{ a: number; b: number; similarity: number }> = [];
+
+  for (let i = 0; i < representatives.length; i++) {
+    for (let j = i + 1; j < representatives.length; j++) {
+      const a = representatives[i];
+      const b = representatives[j];
+      // Sorted by size: once the size ratio alone rules out the threshold, so do all larger fragments
+      if (2 * a.total / (a.total + b.total) < options.similarityThreshold) break;
+      if (overlaps(a.fragment, b.fragment)) continue;
+
+      const similarity = fragmentSimilarity(a.fragment, b.fragment);
+      if (similarity >= options.similarityThreshold) {
+        edges.push({ a: i, b: j, similarity });
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const nearMisses = new Map<number, CloneGroup>();
+  for (const edge of edges) {
+    const root = find(edge.a);
+    const group = nearMisses.get(root) || { type: 3 as CloneType, similarity: 1, fragments: [] };
+    for (const index of [edge.a, edge.b]) {
+      if (!group.fragments.includes(representatives[index].fragment)) {
+        group.fragments.push(representatives[index].fragment);
+      }
+    }
+    group.similarity = Math.min(group.similarity, edge.similarity);
+    nearMisses.set(root, group);
+  }
+  groups.push(...nearMisses.values());
+
+  return groups
+    .filter(group => !isNestedGroup(group, groups))
+    .map(group => ({ ...group, fragments: [...group.fragments].sort(compareLocation) }))
+    .sort((a, b) => a.type - b.type || groupWeight(b) - groupWeight(a));
+}
+
+/**
+ * Ranks fragments by structural similarity to a query fragment.
+ */
+export function findCloneMatches(query: CloneFragment, fragments: CloneFragment[], threshold: number, limit: number): CloneMatch[] {
+  const matches: CloneMatch[] = [];
+
+  for (const fragment of fragments) {
+    if (fragment.exactHash === query.exactHash) {
+      matches.push({ fragment, type: 1, similarity: 1 });
+    } else if (fragment.renamedHash === query.renamedHash) {
+      matches.push({ fragment, type: 2, similarity: 1 });
+    } else {
+      const similarity = fragmentSimilarity(query, fragment);
+      if (similarity >= threshold) {
+        matches.push({ fragment, type: 3, similarity });
+      }
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.similarity - a.similarity || a.type - b.type)
+    .slice(0, limit);
+}
+
+/**
+ * Dice coefficient of the two fragments' subtree shape multisets (1 = same structure).
+ */
+export function fragmentSimilarity(a: CloneFragment, b: CloneFragment): number {
+  const totalA = countShapes(a);
+  const totalB = countShapes(b);
+  if (totalA + totalB === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const [shape, count] of Object.entries(a.shapes)) {
+    shared += Math.min(count, b.shapes[shape] || 0);
+  }
+  return 2 * shared / (totalA + totalB);
+}
+
+function createFragment(root: t.Node, file: string, name: string): CloneFragment {
+  const shapes: Record<string, number> = {};
+  const normalized = normalize(root, new Map(), shapes, true);
+
+  return {
+    file,
+    name,
+    startLine: root.loc?.start.line ?? 1,
+    endLine: root.loc?.end.line ?? 1,
+    size: normalized.size,
+    exactHash: normalized.exact,
+    renamedHash: normalized.renamed,
+    shapes
+  };
+}
+
+/**
+ * Hashes a subtree bottom-up (Merkle style) in three variants: exact, with
+ * identifiers renamed in order of first use and literals blanked, and with all
+ * identifiers blanked. The last variant is insensitive to renames anywhere in
+ * the fragment, which makes it the basis for near-miss comparison.
+ */
+function normalize(node: t.Node, renames: Map<string, string>, shapes: Record<string, number>, isRoot: boolean = false): NormalizedNode {
+  const label = nodeLabel(node);
+  let exactLeaf = '';
+  let renamedLeaf = '';
+
+  if (t.isIdentifier(node) || t.isJSXIdentifier(node) || t.isPrivateName(node)) {
+    const name = t.isPrivateName(node) ? `#${node.id.name}` : node.name;
+    if (!renames.has(name)) {
+      renames.set(name, `$${renames.size}`);
+    }
+    exactLeaf = name;
+    renamedLeaf = renames.get(name)!;
+  } else if (LITERAL_TYPES.has(node.type)) {
+    exactLeaf = literalValue(node);
+  }
+
+  const children: NormalizedNode[] = [];
+  for (const key of t.VISITOR_KEYS[node.type] || []) {
+    // The fragment's own name is reported separately and must not break the match
+    if (isRoot && (key === 'id' || key === 'key')) continue;
+    if (TYPE_ANNOTATION_KEYS.has(key)) continue;
+
+    const value = (node as any)[key];
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child.type === 'string') {
+        children.push(normalize(child, renames, shapes));
+      }
+    }
+  }
+
+  const size = 1 + children.reduce((total, child) => total + child.size, 0);
+  const shape = hash(`${label}(${children.map(child => child.shape).join(',')})`);
+  if (size >= MIN_SHAPE_SIZE) {
+    shapes[shape] = (shapes[shape] || 0) + 1;
+  }
+
+  return {
+    exact: hash(`${label}:${exactLeaf}(${children.map(child => child.exact).join(',')})`),
+    renamed: hash(`${label}:${renamedLeaf}(${children.map(child => child.renamed).join(',')})`),
+    shape,
+    size
+  };
+}
+
+// Node type plus the attributes that change semantics without being child nodes
+function nodeLabel(node: t.Node): string {
+  const parts: string[] = [node.type];
+  const attributes = node as any;
+
+  if (typeof attributes.operator === 'string') parts.push(attributes.operator);
+  if (attributes.prefix === true) parts.push('prefix');
+  if (attributes.computed === true) parts.push('computed');
+  if (attributes.async === true) parts.push('async');
+  if (attributes.generator === true) parts.push('generator');
+  if (typeof attributes.kind === 'string') parts.push(attributes.kind);
+
+  return parts.join(' ');
+}
+
+function literalValue(node: t.Node): string {
+  if (t.isTemplateElement(node)) return node.value.raw;
+  if (t.isRegExpLiteral(node)) return `/${node.pattern}/${node.flags}`;
+  if (t.isJSXText(node)) return node.value.trim();
+  return String((node as any).value);
+}
+
+function functionName(node: t.Function, parent: t.Node): string {
+  if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+    return node.id.name;
+  }
+  if ((t.isClassMethod(node) || t.isObjectMethod(node)) && t.isIdentifier(node.key)) {
+    return node.key.name;
+  }
+  if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+    return parent.id.name;
+  }
+  if ((t.isObjectProperty(parent) || t.isClassProperty(parent)) && t.isIdentifier(parent.key)) {
+    return parent.key.name;
+  }
+  return 'anonymous';
+}
+
+function countShapes(fragment: CloneFragment): number {
+  return Object.values(fragment.shapes).reduce((total, count) => total + count, 0);
+}
+
+function overlaps(a: CloneFragment, b: CloneFragment): boolean {
+  return a.file === b.file && a.startLine <= b.endLine && b.startLine <= a.endLine;
+}
+
+function contains(outer: CloneFragment, inner: CloneFragment): boolean {
+  return outer !== inner && outer.file === inner.file &&
+    outer.startLine <= inner.startLine && inner.endLine <= outer.endLine &&
+    outer.size > inner.size;
+}
+
+function isNestedGroup(group: CloneGroup, groups: CloneGroup[]): boolean {
+  return group.fragments.every(fragment =>
+    groups.some(other => other !== group && other.fragments.some(outer => contains(outer, fragment)))
+  );
+}
+
+function groupWeight(group: CloneGroup): number {
+  return group.fragments.reduce((total, fragment) => total + fragment.size, 0);
+}
+
+function compareLocation(a: CloneFragment, b: CloneFragment): number {
+  return a.file.localeCompare(b.file) || a.startLine - b.startLine;
+}
+
+function hash(value: string): string {
+  return hashContent(value).slice(0, 16);
+}
@@ -0,0 +1,232 @@
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from './babelParser.js';
+
+export interface ParameterInfo {
+  name: string;
+  type?: string;
+  optional?: boolean;
+  defaultValue?: string;
+}
+
+export type FunctionKind = 'function' | 'arrow' | 'method' | 'getter' | 'setter' | 'constructor';
+
+export interface FunctionInfo {
+  name: string;
+  location: string;
+  line: number;
+  kind: FunctionKind;
+  className?: string;
+  async?: boolean;
+  complexity: number;
+  parameters: ParameterInfo[];
+  returnType?: string;
+}
+
+export interface ClassInfo {
+  name: string;
+  location: string;
+  line: number;
+  methods: string[];
+  accessors: string[]; // Getters and setters
+  properties: string[];
+  extends?: string;
+  implements?: string[];
+}
+
+/**
+ * Extracts functions (including methods, accessors and named arrow functions)
+ * and classes from a Babel AST. Types are taken verbatim from the source.
+ */
+export function extractDeclarations(ast: t.File, content: string, location: string): { functions: FunctionInfo[]; classes: ClassInfo[] } {
+  const functions: FunctionInfo[] = [];
+  const classes: ClassInfo[] = [];
+  const source = (node: t.Node | null | undefined) =>
+    node && node.start != null && node.end != null ? content.slice(node.start, node.end) : undefined;
+
+  // No scope analysis: it is not needed here, and it rejects recovered ASTs with duplicate declarations
+  traverse(ast, {
+    noScope: true,
+    Function: path => {
+      const info = describeFunction(path, source);
+      if (info) {
+        functions.push({ ...info, location });
+      }
+    },
+
+    Class: path => {
+      const node = path.node;
+      const name = node.id?.name ?? (t.isVariableDeclarator(path.parent) && t.isIdentifier(path.parent.id) ? path.parent.id.name : undefined);
+      if (!name) return;
+
+      const methods: string[] = [];
+      const accessors: string[] = [];
+      const properties: string[] = [];
+
+      for (const member of node.body.body) {
+        if (t.isClassMethod(member) || t.isClassPrivateMethod(member) || t.isTSDeclareMethod(member)) {
+          const memberName = keyName(member.key, source);
+          if (member.kind === 'get' || member.kind === 'set') {
+            accessors.push(`${member.kind} ${memberName}`);
+          } else {
+            methods.push(memberName);
+          }
+
+          // Constructor parameter properties ("constructor(private db: Db)") are fields too
+          if (member.kind === 'constructor') {
+            for (const param of member.params) {
+              if (t.isTSParameterProperty(param)) {
+                properties.push(parameterName(param.parameter, source));
+              }
+            }
+          }
+        } else if (t.isClassProperty(member) || t.isClassPrivateProperty(member) || t.isClassAccessorProperty(member)) {
+          properties.push(keyName(member.key, source));
+        }
+      }
+
+      const implemented = (t.isClassDeclaration(node) || t.isClassExpression(node)) && node.implements
+        ? node.implements.map(item => source(item)).filter((item): item is string => !!item)
+        : [];
+
+      classes.push({
+        name,
+        location,
+        line: node.loc?.start.line ?? 1,
+        methods,
+        accessors,
+        properties,
+        extends: source(node.superClass),
+        implements: implemented
+      });
+    }
+  });
+
+  return { functions, classes };
+}
+
+/**
+ * Cyclomatic complexity of a function: 1 plus one per branch point.
+ * Nested functions are counted on their own, not as part of their parent.
+ */
+export function cyclomaticComplexity(path: NodePath): number {
+  let complexity = 1;
+  const branch = () => { complexity++; };
+
+  path.traverse({
+    noScope: true,
+    IfStatement: branch,
+    ForStatement: branch,
+    ForInStatement: branch,
+    ForOfStatement: branch,
+    WhileStatement: branch,
+    DoWhileStatement: branch,
+    CatchClause: branch,
+    ConditionalExpression: branch,
+    SwitchCase: casePath => {
+      if (casePath.node.test) complexity++; // "default" is not a branch of its own
+    },
+    LogicalExpression: logicalPath => {
+      if (['&&', '||', '??'].includes(logicalPath.node.operator)) complexity++;
+    },
+    Function: nestedPath => {
+      nestedPath.skip();
+    }
+  });
+
+  return complexity;
+}
+
+function describeFunction(
+  path: NodePath<t.Function>,
+  source: (node: t.Node | null | undefined) => string | undefined
+): Omit<FunctionInfo, 'location'> | null {
+  const node = path.node;
+  const parent = path.parent;
+  let name: string | undefined;
+  let kind: FunctionKind = t.isArrowFunctionExpression(node) ? 'arrow' : 'function';
+  let className: string | undefined;
+
+  if (t.isClassMethod(node) || t.isClassPrivateMethod(node) || t.isObjectMethod(node)) {
+    name = keyName(node.key, source);
+    kind = node.kind === 'get' ? 'getter' : node.kind === 'set' ? 'setter' : node.kind === 'constructor' ? 'constructor' : 'method';
+    className = enclosingClassName(path);
+  } else if (t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) {
+    name = node.id?.name;
+  }
+
+  // Function and arrow expressions take the name they are bound to
+  if (!name) {
+    if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+      name = parent.id.name;
+    } else if (t.isAssignmentExpression(parent)) {
+      name = source(parent.left);
+    } else if (t.isObjectProperty(parent) || t.isClassProperty(parent) || t.isClassPrivateProperty(parent)) {
+      name = keyName(parent.key, source);
+      if (!t.isObjectProperty(parent)) {
+        className = enclosingClassName(path);
+      }
+    } else if (t.isExportDefaultDeclaration(parent)) {
+      name = 'default';
+    }
+  }
+
+  // Unnamed callbacks are part of the function that contains them
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name,
+    line: node.loc?.start.line ?? 1,
+    kind,
+    className,
+    async: node.async || undefined,
+    complexity: cyclomaticComplexity(path),
+    parameters: node.params.map(param => describeParameter(param, source)),
+    returnType: source(node.returnType && t.isTSTypeAnnotation(node.returnType) ? node.returnType.typeAnnotation : node.returnType)
+  };
+}
+
+function describeParameter(
+  param: t.Function['params'][number],
+  source: (node: t.Node | null | undefined) => string | undefined
+): ParameterInfo {
+  const target = t.isTSParameterProperty(param) ? param.parameter : param;
+
+  if (t.isAssignmentPattern(target)) {
+    return { ...describeParameter(target.left as t.Identifier, source), optional: true, defaultValue: source(target.right) };
+  }
+
+  const annotation = 'typeAnnotation' in target ? target.typeAnnotation : undefined;
+  return {
+    name: parameterName(target, source),
+    type: source(annotation && t.isTSTypeAnnotation(annotation) ? annotation.typeAnnotation : annotation),
+    optional: ('optional' in target && target.optional) || undefined
+  };
+}
+
+function parameterName(param: t.Node, source: (node: t.Node | null | undefined) => string | undefined): string {
+  if (t.isIdentifier(param)) return param.name;
+  if (t.isAssignmentPattern(param)) return parameterName(param.left, source);
+  if (t.isRestElement(param)) return `...${parameterName(param.argument, source)}`;
+
+  // Destructuring patterns are shown as written, without their type annotation
+  const text = source(param) ?? 'unknown';
+  const annotation = 'typeAnnotation' in param ? source(param.typeAnnotation as t.Node) : undefined;
+  return annotation && text.endsWith(annotation) ? text.slice(0, -annotation.length).trim() : text;
+}
+
+function keyName(key: t.Node, source: (node: t.Node | null | undefined) => string | undefined): string {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key) || t.isNumericLiteral(key)) return String(key.value);
+  if (t.isPrivateName(key)) return `#${key.id.name}`;
+  return `[${source(key) ?? 'computed'}]`;
+}
+
+function enclosingClassName(path: NodePath): string | undefined {
+  const classPath = path.findParent(parent => parent.isClass()) as NodePath<t.Class> | null;
+  if (!classPath) return undefined;
+  if (classPath.node.id) return classPath.node.id.name;
+  return t.isVariableDeclarator(classPath.parent) && t.isIdentifier(classPath.parent.id) ? classPath.parent.id.name : undefined;
+}
@@ -0,0 +1,233 @@
+export type GraphFormat = 'text' | 'dot' | 'mermaid' | 'json';
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  group?: string; // Clustered together in DOT output, e.g. the declaring file
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+export interface Graph<N extends GraphNode = GraphNode, E extends GraphEdge = GraphEdge> {
+  nodes: N[];
+  edges: E[];
+}
+
+/**
+ * Tarjan's strongly connected components. Every component with more than one
+ * node, or a node with an edge to itself, is a cycle.
+ */
+export function findCycles(graph: Graph): string[][] {
+  const successors = adjacency(graph);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  // Iterative, so deep call chains cannot overflow the stack
+  for (const start of graph.nodes.map(node => node.id)) {
+    if (index.has(start)) continue;
+
+    const work: Array<{ id: string; next: number }> = [{ id: start, next: 0 }];
+    index.set(start, counter);
+    lowLink.set(start, counter++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = successors.get(frame.id) || [];
+
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter++);
+          stack.push(target);
+          onStack.add(target);
+          work.push({ id: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+      }
+
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+
+        if (component.length > 1 || targets.includes(frame.id)) {
+          cycles.push(component.reverse());
+        }
+      }
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * A shortest path around a cycle found by findCycles, starting and ending at
+ * its first node; larger components can contain more nodes than the path.
+ */
+export function shortestCycle(graph: Graph, cycle: string[]): string[] {
+  const members = new Set(cycle);
+  const successors = adjacency(graph);
+  const start = cycle[0];
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const target of successors.get(id) || []) {
+      if (target === start) {
+        const path = [start];
+        for (let step: string | undefined = id; step && step !== start; step = previous.get(step)) {
+          path.splice(1, 0, step);
+        }
+        return [...path, start];
+      }
+      if (members.has(target) && !previous.has(target)) {
+        previous.set(target, id);
+        queue.push(target);
+      }
+    }
+  }
+
+  return [...cycle, start];
+}
+
+/**
+ * The part of a graph reachable from the roots in at most `depth` edges.
+ */
+export function reachableSubgraph<N extends GraphNode, E extends GraphEdge>(graph: Graph<N, E>, roots: string[], depth: number): Graph<N, E> {
+  const successors = adjacency(graph);
+  const distance = new Map(roots.map(root => [root, 0]));
+  const queue = [...roots];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const next = distance.get(id)! + 1;
+    if (next > depth) continue;
+
+    for (const target of successors.get(id) || []) {
+      if (!distance.has(target)) {
+        distance.set(target, next);
+        queue.push(target);
+      }
+    }
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => distance.has(node.id)),
+    edges: graph.edges.filter(edge => distance.has(edge.from) && distance.has(edge.to))
+  };
+}
+
+/**
+ * Graphviz DOT, with nodes clustered by group and cycle edges drawn in red.
+ */
+export function toDot(graph: Graph, name: string, cycles: string[][] = []): string {
+  const cycleEdge = cycleEdgeTest(cycles);
+  const lines = [`digraph ${quoteDot(name)} {`, '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+
+  const groups = new Map<string, GraphNode[]>();
+  for (const node of graph.nodes) {
+    const group = node.group ?? '';
+    const members = groups.get(group);
+    if (members) members.push(node);
+    else groups.set(group, [node]);
+  }
+
+  let cluster = 0;
+  for (const [group, nodes] of groups) {
+    const indent = group ? '    ' : '  ';
+    if (group) {
+      lines.push(`  subgraph cluster_${cluster++} {`, `    label=${quoteDot(group)};`);
+    }
+    for (const node of nodes) {
+      lines.push(`${indent}${quoteDot(node.id)} [label=${quoteDot(node.label)}];`);
+    }
+    if (group) {
+      lines.push('  }');
+    }
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = [
+      edge.label ? `label=${quoteDot(edge.label)}` : '',
+      cycleEdge(edge) ? 'color=red' : ''
+    ].filter(Boolean);
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart; node ids are replaced with short safe ones and cycle edges are drawn in red.
+ */
+export function toMermaid(graph: Graph, cycles: string[][] = []): string {
+  const cycleEdge = cycleEdgeTest(cycles);
+  const ids = new Map(graph.nodes.map((node, position) => [node.id, `n${position}`]));
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${escapeMermaid(node.label)}"]`);
+  }
+
+  const highlighted: number[] = [];
+  graph.edges.forEach((edge, position) => {
+    const label = edge.label ? `|"${escapeMermaid(edge.label)}"|` : '';
+    lines.push(`  ${ids.get(edge.from)} -->${label} ${ids.get(edge.to)}`);
+    if (cycleEdge(edge)) highlighted.push(position);
+  });
+
+  if (highlighted.length > 0) {
+    lines.push(`  linkStyle ${highlighted.join(',')} stroke:red`);
+  }
+
+  return lines.join('\n');
+}
+
+function adjacency(graph: Graph): Map<string, string[]> {
+  const successors = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    const targets = successors.get(edge.from);
+    if (targets) targets.push(edge.to);
+    else successors.set(edge.from, [edge.to]);
+  }
+  return successors;
+}
+
+function cycleEdgeTest(cycles: string[][]): (edge: GraphEdge) => boolean {
+  const component = new Map<string, number>();
+  cycles.forEach((cycle, position) => cycle.forEach(id => component.set(id, position)));
+  return edge => component.has(edge.from) && component.get(edge.from) === component.get(edge.to);
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+export type ExclusionReason =
+  | 'skipDirs'
+  | 'config'
+  | 'beeaiignore'
+  | 'gitignore'
+  | 'gitExclude'
+  | 'binary'
+  | 'tooLarge'
+  | 'extensionFilter';
+
+export interface ExclusionCount {
+  files: number;
+  directories: number;
+}
+
+export interface IgnoreRulesOptions {
+  skipDirs?: string[];
+  patterns?: string[]; // Extra gitignore-style globs, relative to the scanned root
+}
+
+interface RuleSet {
+  baseDir: string;
+  reason: ExclusionReason;
+  matcher: Ignore;
+}
+
+const REASON_LABELS: Record<ExclusionReason, string> = {
+  skipDirs: 'analysis.skipDirs',
+  config: 'analysis.ignore',
+  beeaiignore: '.beeaiignore',
+  gitignore: '.gitignore',
+  gitExclude: '.git/info/exclude',
+  binary: 'binary files',
+  tooLarge: 'over the size limit',
+  extensionFilter: 'extension filter'
+};
+
+/**
+ * Decides which files a scan should skip, following gitignore semantics:
+ * patterns are relative to the directory of the file that defines them, and a
+ * deeper ignore file (including "!" re-includes) takes precedence over its parents.
+ * Keeps a tally of every exclusion so analyzers can report what was left out.
+ */
+export class IgnoreRules {
+  private rootPath: string;
+  private gitRoot: string | null;
+  private skipDirs: Set<string>;
+  private configRules: RuleSet | null;
+  private gitExcludeRules: RuleSet | null;
+  private directoryRules = new Map<string, RuleSet[]>();
+  private exclusions = new Map<ExclusionReason, ExclusionCount>();
+
+  constructor(rootPath: string, options: IgnoreRulesOptions = {}) {
+    this.rootPath = path.resolve(rootPath);
+    this.gitRoot = IgnoreRules.findGitRoot(this.rootPath);
+    this.skipDirs = new Set(options.skipDirs || []);
+
+    this.configRules = options.patterns && options.patterns.length > 0
+      ? { baseDir: this.rootPath, reason: 'config', matcher: ignore().add(options.patterns) }
+      : null;
+
+    this.gitExcludeRules = this.gitRoot
+      ? this.loadRuleSet(path.join(this.gitRoot, '.git', 'info', 'exclude'), this.gitRoot, 'gitExclude')
+      : null;
+  }
+
+  private static findGitRoot(startPath: string): string | null {
+    let dir = startPath;
+
+    while (true) {
+      if (fs.existsSync(path.join(dir, '.git'))) {
+        return dir;
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Returns why the entry should be skipped, or null when it should be scanned.
+   * Exclusions are counted; call this once per directory entry.
+   */
+  check(fullPath: string, isDirectory: boolean): ExclusionReason | null {
+    const reason = this.findReason(path.resolve(fullPath), isDirectory);
+    if (reason) {
+      this.record(reason, isDirectory);
+    }
+    return reason;
+  }
+
+  record(reason: ExclusionReason, isDirectory: boolean = false): void {
+    const count = this.exclusions.get(reason) || { files: 0, directories: 0 };
+    if (isDirectory) {
+      count.directories++;
+    } else {
+      count.files++;
+    }
+    this.exclusions.set(reason, count);
+  }
+
+  getExclusions(): Partial<Record<ExclusionReason, ExclusionCount>> {
+    return Object.fromEntries(this.exclusions);
+  }
+
+  getTotalExcluded(): ExclusionCount {
+    let files = 0;
+    let directories = 0;
+    for (const count of this.exclusions.values()) {
+      files += count.files;
+      directories += count.directories;
+    }
+    return { files, directories };
+  }
+
+  /**
+   * One line per exclusion reason, e.g. "  • .gitignore: 12 files, 2 directories".
+   */
+  formatExclusions(): string[] {
+    return [...this.exclusions.entries()].map(([reason, count]) => {
+      const parts: string[] = [];
+      if (count.files > 0) parts.push(`${count.files} file${count.files === 1 ? '' : 's'}`);
+      if (count.directories > 0) parts.push(`${count.directories} director${count.directories === 1 ? 'y' : 'ies'}`);
+      return `  • ${REASON_LABELS[reason]}: ${parts.join(', ')}`;
+    });
+  }
+
+  private findReason(fullPath: string, isDirectory: boolean): ExclusionReason | null {
+    if (isDirectory && (this.skipDirs.has(path.basename(fullPath)) || path.basename(fullPath) === '.git')) {
+      return 'skipDirs';
+    }
+
+    // Globs from the config cannot be re-included by ignore files
+    if (this.configRules && this.test(this.configRules, fullPath, isDirectory) === 'ignored') {
+      return 'config';
+    }
+
+    const ruleSets = [
+      ...this.getDirectoryChain(path.dirname(fullPath)).reverse().flatMap(dir => this.getDirectoryRules(dir)),
+      ...(this.gitExcludeRules ? [this.gitExcludeRules] : [])
+    ];
+
+    for (const ruleSet of ruleSets) {
+      const result = this.test(ruleSet, fullPath, isDirectory);
+      if (result === 'ignored') return ruleSet.reason;
+      if (result === 'unignored') return null;
+    }
+
+    return null;
+  }
+
+  // Directories from the repository (or scan) root down to dir, whose ignore files apply to dir
+  private getDirectoryChain(dir: string): string[] {
+    const top = this.gitRoot ?? this.rootPath;
+    const relative = path.relative(top, dir);
+
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return [dir];
+    }
+
+    const chain = [top];
+    let current = top;
+    for (const segment of relative.split(path.sep).filter(Boolean)) {
+      current = path.join(current, segment);
+      chain.push(current);
+    }
+    return chain;
+  }
+
+  private getDirectoryRules(dir: string): RuleSet[] {
+    let rules = this.directoryRules.get(dir);
+
+    if (!rules) {
+      // .beeaiignore wins over .gitignore in the same directory
+      rules = [
+        this.loadRuleSet(path.join(dir, '.beeaiignore'), dir, 'beeaiignore'),
+        this.loadRuleSet(path.join(dir, '.gitignore'), dir, 'gitignore')
+      ].filter((ruleSet): ruleSet is RuleSet => ruleSet !== null);
+      this.directoryRules.set(dir, rules);
+    }
+
+    return rules;
+  }
+
+  private loadRuleSet(filePath: string, baseDir: string, reason: ExclusionReason): RuleSet | null {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      return { baseDir, reason, matcher: ignore().add(content) };
+    } catch {
+      return null;
+    }
+  }
+
+  private test(ruleSet: RuleSet, fullPath: string, isDirectory: boolean): 'ignored' | 'unignored' | null {
+    const relative = path.relative(ruleSet.baseDir, fullPath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return null;
+    }
+
+    // Patterns ending in "/" only match directories
+    const candidate = relative.split(path.sep).join('/') + (isDirectory ? '/' : '');
+    const { ignored, unignored } = ruleSet.matcher.test(candidate);
+    return ignored ? 'ignored' : unignored ? 'unignored' : null;
+  }
+}
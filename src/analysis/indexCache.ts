@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface CachedFile<T> {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  analysis: T;
+}
+
+interface CacheFileContents<T> {
+  version: number;
+  root: string;
+  files: Record<string, CachedFile<T>>;
+}
+
+export interface IndexCacheStats {
+  reused: number;
+  analyzed: number;
+  removed: number;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Per-file analysis results persisted between runs, keyed by relative path.
+ * An entry is reused when the file's mtime and size are unchanged, or failing
+ * that when its content hash still matches (e.g. after a checkout that touched it).
+ * Entries for files that no longer exist are dropped on save; files skipped by a
+ * filtered scan (extensions, depth) keep their entries for the next full scan.
+ */
+export class IndexCache<T> {
+  private cachePath: string;
+  private rootPath: string;
+  private version: number;
+  private entries: Record<string, CachedFile<T>> = {};
+  private seen = new Set<string>();
+  private stats: IndexCacheStats = { reused: 0, analyzed: 0, removed: 0 };
+
+  constructor(rootPath: string, version: number, cacheDir: string = path.join(os.homedir(), '.bee-ai', 'cache')) {
+    this.rootPath = path.resolve(rootPath);
+    this.version = version;
+    this.cachePath = path.join(cacheDir, `${hashContent(this.rootPath).slice(0, 16)}.json`);
+  }
+
+  load(): void {
+    try {
+      const contents = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8')) as CacheFileContents<T>;
+      // A cache written by another analyzer version (or for a path with a colliding hash) is discarded
+      if (contents.version === this.version && contents.root === this.rootPath) {
+        this.entries = contents.files || {};
+      }
+    } catch {
+      this.entries = {};
+    }
+  }
+
+  /**
+   * Returns the cached analysis for the file, or computes and stores it.
+   */
+  getOrAnalyze(relativePath: string, stats: fs.Stats, content: string, analyze: () => T): T {
+    this.seen.add(relativePath);
+    const cached = this.entries[relativePath];
+
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      this.stats.reused++;
+      return cached.analysis;
+    }
+
+    const hash = hashContent(content);
+    if (cached && cached.hash === hash) {
+      this.entries[relativePath] = { ...cached, mtimeMs: stats.mtimeMs, size: stats.size };
+      this.stats.reused++;
+      return cached.analysis;
+    }
+
+    const analysis = analyze();
+    this.entries[relativePath] = { mtimeMs: stats.mtimeMs, size: stats.size, hash, analysis };
+    this.stats.analyzed++;
+    return analysis;
+  }
+
+  save(): void {
+    for (const relativePath of Object.keys(this.entries)) {
+      if (!this.seen.has(relativePath) && !fs.existsSync(path.join(this.rootPath, relativePath))) {
+        delete this.entries[relativePath];
+        this.stats.removed++;
+      }
+    }
+
+    const contents: CacheFileContents<T> = {
+      version: this.version,
+      root: this.rootPath,
+      files: this.entries
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      // Write to a temporary file first so an interrupted save never leaves a truncated cache
+      const tempPath = `${this.cachePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(contents), 'utf-8');
+      fs.renameSync(tempPath, this.cachePath);
+    } catch (error) {
+      console.warn('Failed to write analysis cache:', (error as Error).message);
+    }
+  }
+
+  getStats(): IndexCacheStats {
+    return { ...this.stats };
+  }
+}
@@ -0,0 +1,149 @@
+import * as path from 'path';
+import * as t from '@babel/types';
+import ignore from 'ignore';
+import { LayerRule } from '../config.js';
+import { traverse } from './babelParser.js';
+import { Graph, GraphEdge, GraphNode, findCycles } from './graph.js';
+import { ModuleResolver } from './moduleResolver.js';
+
+export interface ModuleImport {
+  specifier: string;
+  line: number;
+}
+
+export interface ModuleNode extends GraphNode {
+  file: string;
+  fanIn: number; // Project modules importing this one
+  fanOut: number; // Project modules this one imports
+  instability: number; // fanOut / (fanIn + fanOut): 0 is maximally stable, 1 maximally unstable
+  externals: string[]; // Package specifiers
+}
+
+export interface ModuleEdge extends GraphEdge {
+  lines: number[]; // Lines of the importing file
+}
+
+export interface UnresolvedImport extends ModuleImport {
+  file: string;
+}
+
+export interface ModuleGraph extends Graph<ModuleNode, ModuleEdge> {
+  cycles: string[][];
+  unresolved: UnresolvedImport[]; // Relative imports that point at no file
+}
+
+export interface LayerViolation {
+  rule: LayerRule;
+  from: string;
+  to: string;
+  line: number;
+}
+
+/**
+ * Module specifiers a file depends on: imports (including type-only ones),
+ * re-exports, dynamic `import()` and `require()` with a literal path.
+ */
+export function extractModuleImports(ast: t.File): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+  const add = (source: t.Node | null | undefined, node: t.Node) => {
+    if (t.isStringLiteral(source)) {
+      imports.push({ specifier: source.value, line: node.loc?.start.line ?? 1 });
+    }
+  };
+
+  traverse(ast, {
+    ImportDeclaration: path => add(path.node.source, path.node),
+    ExportNamedDeclaration: path => add(path.node.source, path.node),
+    ExportAllDeclaration: path => add(path.node.source, path.node),
+    CallExpression: path => {
+      const { callee, arguments: args } = path.node;
+      if (t.isImport(callee) || (t.isIdentifier(callee, { name: 'require' }) && !path.scope.hasBinding('require'))) {
+        add(args[0], path.node);
+      }
+    }
+  });
+
+  return imports;
+}
+
+/**
+ * File-level import graph. Specifiers are resolved to project files; package
+ * imports are kept per module as externals and do not count towards the metrics.
+ */
+export function buildModuleGraph(resolver: ModuleResolver, files: Array<{ path: string; imports: ModuleImport[] }>): ModuleGraph {
+  const nodes = new Map<string, ModuleNode>();
+  const edges = new Map<string, ModuleEdge>();
+  const unresolved: UnresolvedImport[] = [];
+
+  const addNode = (file: string): ModuleNode => {
+    let node = nodes.get(file);
+    if (!node) {
+      const directory = path.posix.dirname(file);
+      node = {
+        id: file,
+        label: file,
+        group: directory === '.' ? undefined : directory, // Clustered by directory
+        file,
+        fanIn: 0,
+        fanOut: 0,
+        instability: 0,
+        externals: []
+      };
+      nodes.set(file, node);
+    }
+    return node;
+  };
+
+  for (const file of files) {
+    const node = addNode(file.path);
+
+    for (const { specifier, line } of file.imports) {
+      const target = resolver.resolve(file.path, specifier);
+      if (target === file.path) continue;
+
+      if (target) {
+        addNode(target);
+        const key = `${file.path}\0${target}`;
+        const edge = edges.get(key) ?? { from: file.path, to: target, lines: [] };
+        edge.lines.push(line);
+        edges.set(key, edge);
+      } else if (specifier.startsWith('.') || specifier.startsWith('/')) {
+        unresolved.push({ file: file.path, specifier, line });
+      } else if (!node.externals.includes(specifier)) {
+        node.externals.push(specifier);
+      }
+    }
+  }
+
+  for (const edge of edges.values()) {
+    nodes.get(edge.from)!.fanOut++;
+    nodes.get(edge.to)!.fanIn++;
+  }
+  for (const node of nodes.values()) {
+    const total = node.fanIn + node.fanOut;
+    node.instability = total > 0 ? node.fanOut / total : 0;
+  }
+
+  const graph = { nodes: [...nodes.values()], edges: [...edges.values()] };
+  return { ...graph, cycles: findCycles(graph), unresolved };
+}
+
+/**
+ * Every import that breaks a layering rule, one entry per rule and import line.
+ */
+export function checkLayerRules(graph: ModuleGraph, rules: LayerRule[]): LayerViolation[] {
+  const violations: LayerViolation[] = [];
+
+  for (const rule of rules) {
+    const from = ignore().add(rule.from);
+    const disallowed = ignore().add(rule.disallow);
+
+    for (const edge of graph.edges) {
+      if (from.ignores(edge.from) && disallowed.ignores(edge.to)) {
+        violations.push(...edge.lines.map(line => ({ rule, from: edge.from, to: edge.to, line })));
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface PathMapping {
+  prefix: string;
+  suffix: string;
+  wildcard: boolean;
+  targets: string[]; // Absolute, may contain one "*"
+}
+
+interface CompilerPaths {
+  baseUrl?: string; // Absolute
+  mappings: PathMapping[];
+}
+
+// Source files an import can point at, in TypeScript's lookup order
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.d.ts'];
+
+// ESM TypeScript imports name the compiled file ("./x.js" for "./x.ts")
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+/**
+ * Resolves import specifiers to files of a project the way TypeScript does:
+ * relative paths, tsconfig/jsconfig `paths` and `baseUrl`, omitted or compiled
+ * extensions, and index files. Bare package imports resolve to null.
+ * Paths in and out are relative to the project root.
+ */
+export class ModuleResolver {
+  private rootPath: string;
+  private compilerPaths: CompilerPaths;
+  private cache = new Map<string, string | null>();
+
+  constructor(rootPath: string) {
+    this.rootPath = path.resolve(rootPath);
+    this.compilerPaths = ModuleResolver.loadCompilerPaths(this.rootPath);
+  }
+
+  resolve(fromFile: string, specifier: string): string | null {
+    const key = `${path.dirname(fromFile)}\0${specifier}`;
+    if (!this.cache.has(key)) {
+      this.cache.set(key, this.resolveUncached(fromFile, specifier));
+    }
+    return this.cache.get(key)!;
+  }
+
+  private resolveUncached(fromFile: string, specifier: string): string | null {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const base = path.resolve(this.rootPath, path.dirname(fromFile), specifier);
+      return this.resolveFile(base);
+    }
+
+    for (const mapping of this.compilerPaths.mappings) {
+      const matched = ModuleResolver.matchMapping(mapping, specifier);
+      if (matched === null) continue;
+
+      for (const target of mapping.targets) {
+        const resolved = this.resolveFile(target.replace('*', matched));
+        if (resolved) return resolved;
+      }
+    }
+
+    if (this.compilerPaths.baseUrl) {
+      return this.resolveFile(path.resolve(this.compilerPaths.baseUrl, specifier));
+    }
+
+    return null;
+  }
+
+  private resolveFile(base: string): string | null {
+    const extension = path.extname(base);
+    const candidates = [
+      ...(COMPILED_EXTENSIONS[extension] || []).map(replacement => base.slice(0, -extension.length) + replacement),
+      base,
+      ...SOURCE_EXTENSIONS.map(ext => base + ext),
+      ...SOURCE_EXTENSIONS.map(ext => path.join(base, `index${ext}`))
+    ];
+
+    for (const candidate of candidates) {
+      if (!SOURCE_EXTENSIONS.some(ext => candidate.endsWith(ext))) continue;
+
+      const relative = path.relative(this.rootPath, candidate);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) return null; // Outside the project
+
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return relative.split(path.sep).join('/');
+      }
+    }
+
+    return null;
+  }
+
+  private static matchMapping(mapping: PathMapping, specifier: string): string | null {
+    if (!mapping.wildcard) {
+      return specifier === mapping.prefix ? '' : null;
+    }
+    if (specifier.length < mapping.prefix.length + mapping.suffix.length) {
+      return null;
+    }
+    if (!specifier.startsWith(mapping.prefix) || !specifier.endsWith(mapping.suffix)) {
+      return null;
+    }
+    return specifier.slice(mapping.prefix.length, specifier.length - mapping.suffix.length);
+  }
+
+  private static loadCompilerPaths(rootPath: string): CompilerPaths {
+    for (const name of ['tsconfig.json', 'jsconfig.json']) {
+      const configPath = path.join(rootPath, name);
+      if (fs.existsSync(configPath)) {
+        return ModuleResolver.readCompilerPaths(configPath, new Set());
+      }
+    }
+    return { mappings: [] };
+  }
+
+  // Follows relative "extends"; options of the extending config win
+  private static readCompilerPaths(configPath: string, seen: Set<string>): CompilerPaths {
+    const empty: CompilerPaths = { mappings: [] };
+    if (seen.has(configPath) || !fs.existsSync(configPath)) return empty;
+    seen.add(configPath);
+
+    let config: any;
+    try {
+      config = JSON.parse(stripJsonComments(fs.readFileSync(configPath, 'utf-8')));
+    } catch {
+      return empty; // A broken tsconfig only costs the path mappings
+    }
+
+    const configDir = path.dirname(configPath);
+    const parent = typeof config.extends === 'string' && config.extends.startsWith('.')
+      ? ModuleResolver.readCompilerPaths(path.resolve(configDir, config.extends), seen)
+      : empty;
+
+    const options = config.compilerOptions || {};
+    const baseUrl = typeof options.baseUrl === 'string' ? path.resolve(configDir, options.baseUrl) : parent.baseUrl;
+    if (!options.paths || typeof options.paths !== 'object') {
+      return { baseUrl, mappings: parent.mappings };
+    }
+
+    // Without baseUrl, paths are relative to the tsconfig that declares them
+    const pathsBase = baseUrl ?? configDir;
+    const mappings = Object.entries(options.paths as Record<string, string[]>)
+      .filter(([, targets]) => Array.isArray(targets))
+      .map(([pattern, targets]) => {
+        const star = pattern.indexOf('*');
+        return {
+          prefix: star === -1 ? pattern : pattern.slice(0, star),
+          suffix: star === -1 ? '' : pattern.slice(star + 1),
+          wildcard: star !== -1,
+          targets: targets.map(target => path.resolve(pathsBase, target))
+        };
+      })
+      // The longest prefix wins, as in TypeScript
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    return { baseUrl, mappings };
+  }
+}
+
+// tsconfig files allow comments and trailing commas
+function stripJsonComments(text: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
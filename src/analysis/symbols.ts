@@ -0,0 +1,483 @@
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { traverse } from './babelParser.js';
+import { ModuleResolver } from './moduleResolver.js';
+
+export type SymbolKind = 'function' | 'class' | 'variable' | 'interface' | 'type' | 'enum' | 'method' | 'property' | 'module';
+
+export interface SymbolDefinition {
+  name: string; // "Class.member" for class members
+  kind: SymbolKind;
+  file: string;
+  line: number;
+  column: number;
+  exported: boolean;
+  text: string; // Source line of the declaration
+}
+
+export interface SymbolReference {
+  name: string;
+  file: string;
+  line: number;
+  column: number;
+  text: string;
+  isImport: boolean; // Import or re-export specifier rather than a use
+}
+
+export interface CallSite {
+  caller: SymbolDefinition; // The enclosing function or method, or the module for top-level code
+  callee: SymbolDefinition;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface SymbolLookup {
+  reference: SymbolReference;
+  definition: SymbolDefinition | null;
+  external?: string; // Package specifier when the symbol comes from outside the project
+}
+
+interface ModuleSource {
+  specifier: string;
+  resolved: string | null; // Project file, null for packages
+}
+
+interface ImportBinding extends ModuleSource {
+  imported: string; // Exported name, "default" or "*" for namespace imports
+}
+
+type ExportBinding =
+  | { local: string }
+  | { from: ModuleSource; imported: string };
+
+type ReferenceTarget =
+  | { kind: 'local'; name: string }
+  | { kind: 'import'; local: string; member?: string }
+  | { kind: 'export'; name: string };
+
+interface RawReference extends SymbolReference {
+  target: ReferenceTarget;
+  caller?: string; // Definition whose body contains the reference
+  call: boolean; // Called, constructed or rendered as a JSX element
+}
+
+interface ModuleSymbols {
+  file: string;
+  definitions: Map<string, SymbolDefinition>;
+  imports: Map<string, ImportBinding>;
+  exports: Map<string, ExportBinding>;
+  starExports: ModuleSource[];
+  references: RawReference[];
+}
+
+// TypeScript declarations Babel reports as referenced identifiers rather than bindings
+const TS_DECLARATIONS = ['TSInterfaceDeclaration', 'TSTypeAliasDeclaration', 'TSEnumDeclaration', 'TSModuleDeclaration'];
+
+/**
+ * Project-wide table of top-level declarations, class members, imports and
+ * exports for JavaScript/TypeScript files. References are resolved lazily
+ * through imports, re-exports and `export *` to the file that declares them.
+ */
+export class SymbolTable {
+  private modules = new Map<string, ModuleSymbols>();
+  private resolutions = new Map<RawReference, SymbolLookup>();
+  private moduleDefinitions = new Map<string, SymbolDefinition>(); // Targets of namespace imports
+
+  constructor(private resolver: ModuleResolver) {}
+
+  get fileCount(): number {
+    return this.modules.size;
+  }
+
+  addFile(file: string, ast: t.File, content: string): void {
+    const lines = content.split('\n');
+    const module: ModuleSymbols = {
+      file,
+      definitions: new Map(),
+      imports: new Map(),
+      exports: new Map(),
+      starExports: [],
+      references: []
+    };
+
+    const textAt = (line: number) => (lines[line - 1] || '').trim().slice(0, 160);
+    const define = (name: string, kind: SymbolKind, node: t.Node, exported: boolean) => {
+      const line = node.loc?.start.line ?? 1;
+      if (!module.definitions.has(name)) {
+        module.definitions.set(name, { name, kind, file, line, column: (node.loc?.start.column ?? 0) + 1, exported, text: textAt(line) });
+      }
+    };
+    const reference = (name: string, node: t.Node, target: ReferenceTarget, isImport = false, path?: NodePath) => {
+      const line = node.loc?.start.line ?? 1;
+      module.references.push({
+        name, file, line, column: (node.loc?.start.column ?? 0) + 1, text: textAt(line), isImport, target,
+        caller: path ? callerName(path) : undefined,
+        call: path ? isCalled(path) : false
+      });
+    };
+    const source = (specifier: string): ModuleSource => ({ specifier, resolved: this.resolver.resolve(file, specifier) });
+
+    for (const statement of ast.program.body) {
+      if (t.isImportDeclaration(statement)) {
+        const from = source(statement.source.value);
+        for (const specifier of statement.specifiers) {
+          const imported = t.isImportDefaultSpecifier(specifier) ? 'default'
+            : t.isImportNamespaceSpecifier(specifier) ? '*'
+            : exportedName(specifier.imported);
+          module.imports.set(specifier.local.name, { ...from, imported });
+          reference(specifier.local.name, specifier, { kind: 'import', local: specifier.local.name }, true);
+        }
+      } else if (t.isExportAllDeclaration(statement)) {
+        module.starExports.push(source(statement.source.value));
+      } else if (t.isExportNamedDeclaration(statement)) {
+        if (statement.declaration) {
+          for (const [name, kind, node] of declaredNames(statement.declaration)) {
+            define(name, kind, node, true);
+            module.exports.set(name, { local: name });
+          }
+        }
+
+        const from = statement.source ? source(statement.source.value) : null;
+        for (const specifier of statement.specifiers) {
+          const exported = exportedName(specifier.exported);
+          if (t.isExportSpecifier(specifier)) {
+            module.exports.set(exported, from ? { from, imported: specifier.local.name } : { local: specifier.local.name });
+            if (from) {
+              reference(exported, specifier, { kind: 'export', name: exported }, true);
+            }
+          } else if (from) {
+            // export * as ns from '...' / export v from '...'
+            module.exports.set(exported, { from, imported: t.isExportNamespaceSpecifier(specifier) ? '*' : 'default' });
+          }
+        }
+      } else if (t.isExportDefaultDeclaration(statement)) {
+        const declaration = statement.declaration;
+        if (t.isIdentifier(declaration)) {
+          module.exports.set('default', { local: declaration.name });
+        } else {
+          const named = declaredNames(declaration);
+          for (const [name, kind, node] of named) {
+            define(name, kind, node, true);
+          }
+          if (named.length === 0) {
+            define('default', t.isFunction(declaration) ? 'function' : t.isClass(declaration) ? 'class' : 'variable', declaration, true);
+          }
+          module.exports.set('default', { local: named[0]?.[0] ?? 'default' });
+        }
+      } else {
+        for (const [name, kind, node] of declaredNames(statement)) {
+          define(name, kind, node, false);
+        }
+      }
+    }
+
+    traverse(ast, {
+      ReferencedIdentifier: path => {
+        const node = path.node as t.Identifier | t.JSXIdentifier;
+        const parent = path.parent;
+        if (TS_DECLARATIONS.includes(parent.type) && (parent as any).id === node) return;
+
+        // Names bound inside a function or block are local to it
+        const binding = path.scope.getBinding(node.name);
+        if (binding && !binding.scope.path.isProgram()) return;
+
+        if (module.imports.has(node.name)) {
+          const member = namespaceMember(path);
+          const calledPath = member ? path.parentPath! : path;
+          reference(member ? `${node.name}.${member}` : node.name, node, { kind: 'import', local: node.name, member }, false, calledPath);
+        } else if (module.definitions.has(node.name)) {
+          reference(node.name, node, { kind: 'local', name: node.name }, false, path);
+        }
+      },
+
+      MemberExpression: path => {
+        // this.member inside a class body refers to that class's member
+        const { object, property } = path.node;
+        if (!t.isThisExpression(object) || path.node.computed) return;
+
+        const className = enclosingClassName(path);
+        const memberName = t.isIdentifier(property) ? property.name : t.isPrivateName(property) ? `#${property.id.name}` : null;
+        if (className && memberName) {
+          reference(memberName, property, { kind: 'local', name: `${className}.${memberName}` }, false, path);
+        }
+      }
+    });
+
+    this.modules.set(file, module);
+    this.resolutions.clear();
+  }
+
+  /**
+   * Definitions named `symbol`: a top-level name, "Class.member", or a bare
+   * member name. Exported definitions come first.
+   */
+  findDefinitions(symbol: string): SymbolDefinition[] {
+    const matches: SymbolDefinition[] = [];
+
+    for (const module of this.modules.values()) {
+      for (const definition of module.definitions.values()) {
+        if (definition.name === symbol || definition.name.endsWith(`.${symbol}`)) {
+          matches.push(definition);
+        }
+      }
+    }
+
+    return matches.sort((a, b) => Number(b.exported) - Number(a.exported) || a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  /**
+   * Resolves what is referenced on a line of a file, optionally only the given
+   * symbol. A declaration on that line resolves to itself.
+   */
+  lookupAt(file: string, line: number, symbol?: string): SymbolLookup[] {
+    const module = this.modules.get(file);
+    if (!module) return [];
+
+    const matchesSymbol = (name: string) => !symbol || name === symbol || name.endsWith(`.${symbol}`);
+    const lookups: SymbolLookup[] = [];
+
+    for (const definition of module.definitions.values()) {
+      if (definition.line === line && matchesSymbol(definition.name)) {
+        lookups.push({ reference: { ...definition, isImport: false }, definition });
+      }
+    }
+
+    for (const reference of module.references) {
+      const member = reference.target.kind === 'import' ? reference.target.member : undefined;
+      if (reference.line === line && (matchesSymbol(reference.name) || (member && matchesSymbol(member)))) {
+        lookups.push(this.resolveReference(reference));
+      }
+    }
+
+    return lookups;
+  }
+
+  // Every use, import and re-export of a definition across the project
+  findReferences(definition: SymbolDefinition): SymbolReference[] {
+    const references: SymbolReference[] = [];
+
+    for (const module of this.modules.values()) {
+      for (const reference of module.references) {
+        if (this.resolveReference(reference).definition === definition) {
+          references.push(publicReference(reference));
+        }
+      }
+    }
+
+    return references.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+  }
+
+  private resolveReference(reference: RawReference): SymbolLookup {
+    let lookup = this.resolutions.get(reference);
+    if (lookup) return lookup;
+
+    const { target } = reference;
+    const seen = new Set<string>();
+    let definition: SymbolDefinition | null = null;
+    let external: string | undefined;
+
+    switch (target.kind) {
+      case 'local':
+        definition = this.resolveLocal(reference.file, target.name, seen);
+        break;
+      case 'export':
+        definition = this.resolveExport(reference.file, target.name, seen);
+        break;
+      case 'import': {
+        const binding = this.modules.get(reference.file)?.imports.get(target.local);
+        if (binding && !binding.resolved) {
+          external = binding.specifier;
+        } else if (binding?.imported === '*' && target.member) {
+          definition = this.resolveExport(binding.resolved!, target.member, seen);
+        } else if (binding) {
+          definition = this.resolveImport(binding, seen);
+        }
+        break;
+      }
+    }
+
+    lookup = { reference: publicReference(reference), definition, external };
+    this.resolutions.set(reference, lookup);
+    return lookup;
+  }
+
+  /**
+   * Every call whose callee resolves to a project definition, attributed to the
+   * top-level function, method or variable that contains it.
+   */
+  callSites(): CallSite[] {
+    const sites: CallSite[] = [];
+
+    for (const module of this.modules.values()) {
+      for (const reference of module.references) {
+        if (!reference.call) continue;
+
+        const callee = this.resolveReference(reference).definition;
+        if (!callee || callee.kind === 'module') continue;
+
+        const caller = (reference.caller && module.definitions.get(reference.caller)) || this.moduleDefinition(module.file);
+        sites.push({ caller, callee, file: module.file, line: reference.line, column: reference.column });
+      }
+    }
+
+    return sites;
+  }
+
+  private resolveLocal(file: string, name: string, seen: Set<string>): SymbolDefinition | null {
+    const module = this.modules.get(file);
+    if (!module) return null;
+
+    const definition = module.definitions.get(name);
+    if (definition) return definition;
+
+    const binding = module.imports.get(name);
+    return binding ? this.resolveImport(binding, seen) : null;
+  }
+
+  private resolveImport(binding: ImportBinding, seen: Set<string>): SymbolDefinition | null {
+    if (!binding.resolved) return null;
+    if (binding.imported === '*') return this.moduleDefinition(binding.resolved);
+    return this.resolveExport(binding.resolved, binding.imported, seen);
+  }
+
+  private resolveExport(file: string, name: string, seen: Set<string>): SymbolDefinition | null {
+    const key = `${file}\0${name}`;
+    if (seen.has(key)) return null; // Circular re-exports
+    seen.add(key);
+
+    const module = this.modules.get(file);
+    if (!module) return null;
+
+    const binding = module.exports.get(name);
+    if (binding && 'local' in binding) {
+      return this.resolveLocal(file, binding.local, seen);
+    }
+    if (binding) {
+      if (!binding.from.resolved) return null;
+      return binding.imported === '*'
+        ? this.moduleDefinition(binding.from.resolved)
+        : this.resolveExport(binding.from.resolved, binding.imported, seen);
+    }
+
+    // export * never forwards the default export
+    if (name !== 'default') {
+      for (const star of module.starExports) {
+        const definition = star.resolved ? this.resolveExport(star.resolved, name, seen) : null;
+        if (definition) return definition;
+      }
+    }
+    return null;
+  }
+
+  private moduleDefinition(file: string): SymbolDefinition {
+    let definition = this.moduleDefinitions.get(file);
+    if (!definition) {
+      definition = { name: file, kind: 'module', file, line: 1, column: 1, exported: true, text: '' };
+      this.moduleDefinitions.set(file, definition);
+    }
+    return definition;
+  }
+}
+
+// Top-level names a statement declares, with class members as "Class.member"
+function declaredNames(node: t.Node): Array<[string, SymbolKind, t.Node]> {
+  if ((t.isFunctionDeclaration(node) || t.isTSDeclareFunction(node)) && node.id) {
+    return [[node.id.name, 'function', node]];
+  }
+
+  if (t.isClassDeclaration(node) && node.id) {
+    const className = node.id.name;
+    const names: Array<[string, SymbolKind, t.Node]> = [[className, 'class', node]];
+    for (const member of node.body.body) {
+      if ((t.isClassMethod(member) || t.isClassPrivateMethod(member) || t.isTSDeclareMethod(member)) && !member.computed) {
+        names.push([`${className}.${memberKey(member.key)}`, 'method', member]);
+      } else if ((t.isClassProperty(member) || t.isClassPrivateProperty(member)) && !(member as t.ClassProperty).computed) {
+        names.push([`${className}.${memberKey(member.key)}`, 'property', member]);
+      }
+    }
+    return names;
+  }
+
+  if (t.isVariableDeclaration(node)) {
+    return node.declarations.flatMap(declarator => {
+      const isFunction = t.isArrowFunctionExpression(declarator.init) || t.isFunctionExpression(declarator.init);
+      return Object.values(t.getBindingIdentifiers(declarator.id)).map(
+        (identifier): [string, SymbolKind, t.Node] => [identifier.name, isFunction ? 'function' : 'variable', declarator]
+      );
+    });
+  }
+
+  if (t.isTSInterfaceDeclaration(node)) return [[node.id.name, 'interface', node]];
+  if (t.isTSTypeAliasDeclaration(node)) return [[node.id.name, 'type', node]];
+  if (t.isTSEnumDeclaration(node)) return [[node.id.name, 'enum', node]];
+
+  return [];
+}
+
+function publicReference({ name, file, line, column, text, isImport }: RawReference): SymbolReference {
+  return { name, file, line, column, text, isImport };
+}
+
+// Name of the closest enclosing definition: "Class.member", a top-level function or variable, or a class
+function callerName(path: NodePath): string | undefined {
+  for (let current = path.parentPath; current; current = current.parentPath) {
+    const node = current.node;
+
+    if (t.isClassMethod(node) || t.isClassPrivateMethod(node) || t.isClassProperty(node) || t.isClassPrivateProperty(node)) {
+      const owner = current.parentPath?.parentPath?.node;
+      if (owner && t.isClass(owner) && owner.id) return `${owner.id.name}.${memberKey(node.key)}`;
+    } else if (t.isClass(node) && node.id && isTopLevel(current)) {
+      return node.id.name;
+    } else if (t.isFunctionDeclaration(node) && node.id && isTopLevel(current)) {
+      return node.id.name;
+    } else if (t.isVariableDeclarator(node) && t.isIdentifier(node.id) && current.parentPath && isTopLevel(current.parentPath)) {
+      return node.id.name;
+    }
+  }
+  return undefined;
+}
+
+function isTopLevel(path: NodePath): boolean {
+  const parent = path.parentPath;
+  return !!parent && (parent.isProgram() || ((parent.isExportNamedDeclaration() || parent.isExportDefaultDeclaration()) && !!parent.parentPath?.isProgram()));
+}
+
+// f(), new C(), ns.f(), this.m() and <Component />
+function isCalled(path: NodePath): boolean {
+  const parent = path.parent;
+  if ((t.isCallExpression(parent) || t.isNewExpression(parent) || t.isOptionalCallExpression(parent)) && parent.callee === path.node) {
+    return true;
+  }
+  return t.isJSXOpeningElement(parent) && parent.name === path.node;
+}
+
+function memberKey(key: t.Node): string {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key) || t.isNumericLiteral(key)) return String(key.value);
+  if (t.isPrivateName(key)) return `#${key.id.name}`;
+  return '[computed]';
+}
+
+function exportedName(node: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(node) ? node.name : node.value;
+}
+
+// ns.member / ns.Type for namespace imports
+function namespaceMember(path: NodePath): string | undefined {
+  const parent = path.parent;
+  if (t.isMemberExpression(parent) && parent.object === path.node && !parent.computed && t.isIdentifier(parent.property)) {
+    return parent.property.name;
+  }
+  if (t.isTSQualifiedName(parent) && parent.left === path.node) {
+    return parent.right.name;
+  }
+  return undefined;
+}
+
+function enclosingClassName(path: NodePath): string | undefined {
+  // Arrow functions keep the class's "this"; regular functions do not
+  const owner = path.findParent(parent => parent.isClass() || (parent.isFunction() && !parent.isArrowFunctionExpression() && !parent.isClassMethod() && !parent.isClassPrivateMethod()));
+  if (!owner || !owner.isClass()) return undefined;
+  return owner.node.id?.name;
+}
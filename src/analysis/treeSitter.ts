@@ -0,0 +1,361 @@
+import { createRequire } from 'module';
+import { Language, Node, Parser } from 'web-tree-sitter';
+
+const require = createRequire(import.meta.url);
+
+export type DeclarationType = 'function' | 'class' | 'interface' | 'import' | 'variable';
+
+/**
+ * A declaration found by a tree-sitter grammar, in the same terms the Babel
+ * extraction uses so both feed the same AST nodes and code chunks.
+ */
+export interface SourceDeclaration {
+  type: DeclarationType;
+  name: string;
+  content: string;
+  start: number;
+  end: number;
+  line: number;
+  parameters?: string[];
+  returnType?: string;
+  complexity?: number;
+  dependencies: string[];
+  scope: string;
+  category: string;
+}
+
+interface LanguageSpec {
+  name: string;
+  grammar: string; // tree-sitter-wasms grammar file, without prefix and extension
+  declarations: Record<string, DeclarationType>;
+  // Nodes that add a branch to a function's cyclomatic complexity
+  branches: string[];
+  // Binary expression nodes that count as a branch for && and ||
+  logicalOperators?: string;
+  // Nested functions and closures, counted on their own
+  functions: string[];
+  calls: string[];
+  classScopes: string[];
+}
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  '.py': {
+    name: 'Python',
+    grammar: 'python',
+    declarations: {
+      function_definition: 'function',
+      class_definition: 'class',
+      import_statement: 'import',
+      import_from_statement: 'import',
+      assignment: 'variable'
+    },
+    branches: ['if_statement', 'elif_clause', 'for_statement', 'while_statement', 'except_clause', 'conditional_expression', 'boolean_operator', 'for_in_clause', 'if_clause', 'case_clause'],
+    functions: ['function_definition', 'lambda'],
+    calls: ['call'],
+    classScopes: ['class_definition']
+  },
+  '.go': {
+    name: 'Go',
+    grammar: 'go',
+    declarations: {
+      function_declaration: 'function',
+      method_declaration: 'function',
+      type_spec: 'class',
+      import_spec: 'import',
+      var_spec: 'variable',
+      const_spec: 'variable'
+    },
+    branches: ['if_statement', 'for_statement', 'expression_case', 'type_case', 'communication_case'],
+    logicalOperators: 'binary_expression',
+    functions: ['function_declaration', 'method_declaration', 'func_literal'],
+    calls: ['call_expression'],
+    classScopes: []
+  },
+  '.java': {
+    name: 'Java',
+    grammar: 'java',
+    declarations: {
+      method_declaration: 'function',
+      constructor_declaration: 'function',
+      class_declaration: 'class',
+      enum_declaration: 'class',
+      record_declaration: 'class',
+      interface_declaration: 'interface',
+      import_declaration: 'import',
+      field_declaration: 'variable'
+    },
+    branches: ['if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement', 'catch_clause', 'ternary_expression', 'switch_label'],
+    logicalOperators: 'binary_expression',
+    functions: ['method_declaration', 'constructor_declaration', 'lambda_expression'],
+    calls: ['method_invocation', 'object_creation_expression'],
+    classScopes: ['class_body', 'interface_body', 'enum_body']
+  },
+  '.rs': {
+    name: 'Rust',
+    grammar: 'rust',
+    declarations: {
+      function_item: 'function',
+      struct_item: 'class',
+      enum_item: 'class',
+      trait_item: 'interface',
+      use_declaration: 'import',
+      const_item: 'variable',
+      static_item: 'variable'
+    },
+    branches: ['if_expression', 'for_expression', 'while_expression', 'match_arm'],
+    logicalOperators: 'binary_expression',
+    functions: ['function_item', 'closure_expression'],
+    calls: ['call_expression', 'macro_invocation'],
+    classScopes: ['impl_item', 'trait_item']
+  }
+};
+
+// Files the tree-sitter analyses understand
+export const TREE_SITTER_EXTENSIONS = Object.keys(LANGUAGES);
+
+let initialized: Promise<void> | null = null;
+const parsers = new Map<string, Promise<Parser>>();
+
+export function getTreeSitterLanguageName(extension: string): string | undefined {
+  return LANGUAGES[extension]?.name;
+}
+
+/**
+ * Parses a Python, Go, Java or Rust file with its tree-sitter grammar and
+ * returns its functions, types, imports and top-level variables.
+ * Grammars are loaded on first use. Throws when the grammar cannot be loaded.
+ */
+export async function parseDeclarations(content: string, extension: string): Promise<SourceDeclaration[]> {
+  const spec = LANGUAGES[extension];
+  if (!spec) {
+    throw new Error(`No tree-sitter grammar for ${extension} files`);
+  }
+
+  const parser = await loadParser(spec);
+  const tree = parser.parse(content);
+  if (!tree) {
+    throw new Error(`tree-sitter could not parse the ${spec.name} source`);
+  }
+
+  try {
+    const declarations: SourceDeclaration[] = [];
+    collectDeclarations(tree.rootNode, spec, declarations);
+    return declarations;
+  } finally {
+    tree.delete(); // Trees live in WebAssembly memory and are not garbage collected
+  }
+}
+
+function loadParser(spec: LanguageSpec): Promise<Parser> {
+  let parser = parsers.get(spec.grammar);
+  if (!parser) {
+    parser = (async () => {
+      initialized ??= Parser.init();
+      await initialized;
+      const language = await Language.load(require.resolve(`tree-sitter-wasms/out/tree-sitter-${spec.grammar}.wasm`));
+      const instance = new Parser();
+      instance.setLanguage(language);
+      return instance;
+    })();
+    // A failed load is retried on the next file rather than cached
+    parser.catch(() => parsers.delete(spec.grammar));
+    parsers.set(spec.grammar, parser);
+  }
+  return parser;
+}
+
+function collectDeclarations(node: Node, spec: LanguageSpec, declarations: SourceDeclaration[]): void {
+  const type = spec.declarations[node.type];
+  if (type) {
+    declarations.push(...describeDeclaration(node, type, spec));
+  }
+
+  for (const child of node.namedChildren) {
+    if (child) collectDeclarations(child, spec, declarations);
+  }
+}
+
+function describeDeclaration(node: Node, type: DeclarationType, spec: LanguageSpec): SourceDeclaration[] {
+  const base = {
+    content: node.text,
+    start: node.startIndex,
+    end: node.endIndex,
+    line: node.startPosition.row + 1,
+    scope: enclosingScope(node, spec)
+  };
+
+  switch (type) {
+    case 'function': {
+      const name = fieldText(node, 'name');
+      if (!name) return [];
+
+      return [{
+        ...base,
+        type,
+        name,
+        parameters: parameterNames(node.childForFieldName('parameters')),
+        returnType: fieldText(node, 'return_type') ?? fieldText(node, 'result') ?? javaReturnType(node),
+        complexity: cyclomaticComplexity(node, spec),
+        dependencies: calledNames(node, spec),
+        category: 'declaration'
+      }];
+    }
+
+    case 'class': {
+      const name = fieldText(node, 'name');
+      if (!name) return [];
+
+      // Go type specs are structs or interfaces; plain type definitions are skipped
+      const goType = node.type === 'type_spec' ? node.childForFieldName('type')?.type : undefined;
+      if (goType && goType !== 'struct_type' && goType !== 'interface_type') return [];
+      const isInterface = goType === 'interface_type';
+
+      return [{
+        ...base,
+        type: isInterface ? 'interface' : 'class',
+        name,
+        dependencies: calledNames(node, spec),
+        category: isInterface ? 'type_definition' : 'declaration'
+      }];
+    }
+
+    case 'interface': {
+      const name = fieldText(node, 'name');
+      return name ? [{ ...base, type, name, dependencies: [], category: 'type_definition' }] : [];
+    }
+
+    case 'import': {
+      const name = importName(node);
+      return [{ ...base, type, name, dependencies: [name], scope: 'module', category: 'import' }];
+    }
+
+    case 'variable': {
+      // Locals are part of their function; only module and class level variables are declarations
+      if (enclosingFunction(node, spec)) return [];
+      return variableNames(node).map(name => ({
+        ...base,
+        type,
+        name,
+        dependencies: calledNames(node, spec),
+        category: 'declaration'
+      }));
+    }
+  }
+}
+
+function cyclomaticComplexity(fn: Node, spec: LanguageSpec): number {
+  let complexity = 1;
+
+  const visit = (node: Node) => {
+    if (spec.branches.includes(node.type) && !isDefaultBranch(node)) {
+      complexity++;
+    } else if (node.type === spec.logicalOperators) {
+      const operator = node.childForFieldName('operator')?.type;
+      if (operator === '&&' || operator === '||') complexity++;
+    }
+
+    for (const child of node.namedChildren) {
+      if (child && !spec.functions.includes(child.type)) visit(child);
+    }
+  };
+
+  visit(fn);
+  return complexity;
+}
+
+// "default:" labels and "_" match arms are not branches of their own
+function isDefaultBranch(node: Node): boolean {
+  if (node.type === 'switch_label') return node.namedChildCount === 0;
+  if (node.type === 'match_arm') return node.childForFieldName('pattern')?.text === '_';
+  return false;
+}
+
+function calledNames(node: Node, spec: LanguageSpec): string[] {
+  const names = new Set<string>();
+
+  for (const call of node.descendantsOfType(spec.calls)) {
+    if (!call) continue;
+    const callee = call.childForFieldName('function') ?? call.childForFieldName('macro') ?? call.childForFieldName('name') ?? call.childForFieldName('type');
+    if (!callee) continue;
+
+    // Keep the called member for obj.method() and pkg::func() style calls
+    const member = callee.childForFieldName('attribute') ?? callee.childForFieldName('field') ?? callee.childForFieldName('name');
+    names.add((member ?? callee).text);
+  }
+
+  return [...names];
+}
+
+function parameterNames(parameters: Node | null): string[] {
+  if (!parameters) return [];
+
+  return parameters.namedChildren
+    .filter((param): param is Node => !!param && param.type !== 'comment')
+    .flatMap(param => {
+      if (param.type === 'identifier' || param.type === 'self_parameter') return [param.text];
+
+      // Go declares several names per type ("a, b int")
+      const names = param.childrenForFieldName('name').filter((name): name is Node => !!name);
+      if (names.length > 0) return names.map(name => name.text);
+
+      const pattern = param.childForFieldName('pattern');
+      if (pattern) return [pattern.text];
+
+      const identifier = param.namedChildren.find(child => child?.type === 'identifier');
+      return [identifier?.text ?? param.text];
+    });
+}
+
+function variableNames(node: Node): string[] {
+  // Python assignments: only plain "name = value" targets
+  const left = node.childForFieldName('left');
+  if (left) return left.type === 'identifier' ? [left.text] : [];
+
+  // Java fields declare one or more variable_declarators
+  const declarators = node.childrenForFieldName('declarator').filter((item): item is Node => !!item);
+  if (declarators.length > 0) {
+    return declarators.map(item => fieldText(item, 'name')).filter((name): name is string => !!name);
+  }
+
+  return node.childrenForFieldName('name').filter((name): name is Node => !!name).map(name => name.text);
+}
+
+function importName(node: Node): string {
+  switch (node.type) {
+    case 'import_from_statement':
+      return fieldText(node, 'module_name') ?? node.text;
+    case 'import_statement':
+      return fieldText(node, 'name') ?? node.text;
+    case 'import_spec':
+      return (fieldText(node, 'path') ?? node.text).replace(/^["`]|["`]$/g, '');
+    case 'use_declaration':
+      return fieldText(node, 'argument') ?? node.text;
+    default:
+      return node.text.replace(/^import\s+(static\s+)?|;$/g, '').trim();
+  }
+}
+
+function javaReturnType(node: Node): string | undefined {
+  return node.type === 'method_declaration' ? fieldText(node, 'type') : undefined;
+}
+
+function enclosingScope(node: Node, spec: LanguageSpec): string {
+  if (enclosingFunction(node, spec)) return 'function';
+  if (node.type === 'method_declaration' && node.childForFieldName('receiver')) return 'class'; // Go methods
+
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (spec.classScopes.includes(parent.type)) return 'class';
+  }
+  return 'global';
+}
+
+function enclosingFunction(node: Node, spec: LanguageSpec): Node | null {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (spec.functions.includes(parent.type)) return parent;
+  }
+  return null;
+}
+
+function fieldText(node: Node, field: string): string | undefined {
+  return node.childForFieldName(field)?.text;
+}
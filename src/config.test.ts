@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig } from './config.js';
+import { createTempDir, writeFile } from './test/helpers.js';
+
+let globalDir: string;
+let project: string;
+
+beforeEach(() => {
+  globalDir = createTempDir('global');
+  project = createTempDir('project');
+});
+
+afterEach(() => {
+  fs.rmSync(globalDir, { recursive: true, force: true });
+  fs.rmSync(project, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+  it('merges the global config, the project config and the command line in order', () => {
+    writeFile(globalDir, 'config.yaml', 'provider:\n  name: ollama\n  model: llama3.1\nmemory:\n  maxEntries: 50\n');
+    writeFile(project, '.beeairc.json', '{"provider": {"model": "qwen2.5-coder"}, "memory": {"contextTokens": 4000}}');
+
+    const { config, sources } = loadConfig({ memory: { maxEntries: 20 } }, path.join(project, 'src'), globalDir);
+
+    expect(config.provider).toEqual({ name: 'ollama', model: 'qwen2.5-coder' });
+    expect(config.memory).toEqual({ maxEntries: 20, contextTokens: 4000 });
+    expect(sources).toEqual([path.join(globalDir, 'config.yaml'), path.join(project, '.beeairc.json'), 'command line']);
+  });
+
+  it.each([
+    ['provider.name', '{"provider": {"name": "openai"}}'],
+    ['provider.embeddingProvider', '{"provider": {"embeddingProvider": "openai"}}'],
+    ['provider.baseUrl', '{"provider": {"baseUrl": "https://example.com/v1"}}'],
+    ['provider.apiKey', '{"provider": {"apiKey": "sk-test"}}'],
+    ['provider.fixture', '{"provider": {"fixture": "answers.json"}}'],
+    ['vectorStore.chromaUrl', '{"vectorStore": {"chromaUrl": "https://example.com"}}'],
+    ['permissions', '{"permissions": {"allow": ["push"]}}']
+  ])('refuses %s in a project config', (key, content) => {
+    writeFile(project, '.beeairc.json', content);
+
+    expect(() => loadConfig({}, project, globalDir)).toThrow(`${key} cannot be set in a project config`);
+  });
+
+  it('accepts the same settings from the global config', () => {
+    writeFile(globalDir, 'config.json', JSON.stringify({
+      provider: { name: 'openai', embeddingProvider: 'none', baseUrl: 'https://example.com/v1' },
+      vectorStore: { chromaUrl: 'http://localhost:8001' }
+    }));
+    writeFile(project, '.beeairc.json', '{"memory": {"contextTokens": 4000}}');
+
+    const { config } = loadConfig({}, project, globalDir);
+
+    expect(config.provider.embeddingProvider).toBe('none');
+    expect(config.vectorStore.chromaUrl).toBe('http://localhost:8001');
+    expect(config.memory.contextTokens).toBe(4000);
+  });
+});
@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+const ProviderSettingsSchema = z.object({
+  name: z.string().optional(),
+  model: z.string().optional(),
+  embeddingProvider: z.string().optional(),
+  embeddingModel: z.string().optional(),
+  baseUrl: z.string().optional(),
+  apiKey: z.string().optional(),
+  projectId: z.string().optional(),
+  fixture: z.string().optional()
+}).strict();
+
+// Modules matching `from` must not import modules matching any `disallow` pattern (gitignore-style globs)
+const LayerRuleSchema = z.object({
+  from: z.string(),
+  disallow: z.array(z.string()).min(1),
+  description: z.string().optional()
+}).strict();
+
+export const ConfigSchema = z.object({
+  provider: ProviderSettingsSchema,
+  memory: z.object({
+    maxEntries: z.number().int().positive(),
+    contextTokens: z.number().int().positive()
+  }).strict(),
+  analysis: z.object({
+    maxDepth: z.number().int().nonnegative(),
+    skipDirs: z.array(z.string()),
+    ignore: z.array(z.string()),
+    maxFileSize: z.number().int().positive(),
+    maxFileChars: z.number().int().positive(),
+    cache: z.boolean()
+  }).strict(),
+  semanticSearch: z.object({
+    similarityThreshold: z.number().min(0).max(1),
+    maxResults: z.number().int().positive(),
+    embeddingBatchSize: z.number().int().positive(),
+    embeddingMaxRetries: z.number().int().nonnegative(),
+    rrfK: z.number().int().positive(),
+    rerank: z.boolean()
+  }).strict(),
+  cloneDetection: z.object({
+    minNodes: z.number().int().positive(),
+    similarityThreshold: z.number().min(0).max(1)
+  }).strict(),
+  architecture: z.object({
+    rules: z.array(LayerRuleSchema)
+  }).strict(),
+  commitMessages: z.object({
+    convention: z.enum(['conventional', 'plain']),
+    ticketPattern: z.string() // Regular expression for a ticket ID in the branch name; empty to disable
+  }).strict(),
+  permissions: z.object({
+    allow: z.array(z.string()), // "tool:operation" or "tool:*", run without confirmation
+    protectedBranches: z.array(z.string()) // Branch names, "*" matches any characters
+  }).strict(),
+  vectorStore: z.object({
+    chromaUrl: z.string().url(),
+    collectionScope: z.enum(['project', 'branch', 'commit'])
+  }).strict()
+}).strict();
+
+export type BeeAIConfig = z.infer<typeof ConfigSchema>;
+export type ProviderSettings = BeeAIConfig['provider'];
+export type AnalysisConfig = BeeAIConfig['analysis'];
+export type SemanticSearchConfig = BeeAIConfig['semanticSearch'];
+export type CloneDetectionConfig = BeeAIConfig['cloneDetection'];
+export type ArchitectureConfig = BeeAIConfig['architecture'];
+export type LayerRule = ArchitectureConfig['rules'][number];
+export type CommitMessageConfig = BeeAIConfig['commitMessages'];
+export type PermissionsConfig = BeeAIConfig['permissions'];
+export type VectorStoreConfig = BeeAIConfig['vectorStore'];
+
+export const DEFAULT_CONFIG: BeeAIConfig = {
+  provider: {},
+  memory: {
+    maxEntries: 100,
+    contextTokens: 2000
+  },
+  analysis: {
+    maxDepth: 10,
+    skipDirs: ['node_modules', '.git', 'dist', 'build', '.next', 'coverage', '.nyc_output'],
+    ignore: [],
+    maxFileSize: 1024 * 1024,
+    maxFileChars: 100000,
+    cache: true
+  },
+  semanticSearch: {
+    similarityThreshold: 0.7,
+    maxResults: 10,
+    embeddingBatchSize: 64,
+    embeddingMaxRetries: 3,
+    rrfK: 60,
+    rerank: false
+  },
+  cloneDetection: {
+    minNodes: 30,
+    similarityThreshold: 0.8
+  },
+  architecture: {
+    rules: []
+  },
+  commitMessages: {
+    convention: 'conventional',
+    ticketPattern: '[A-Z][A-Z0-9]+-\\d+'
+  },
+  permissions: {
+    allow: [],
+    protectedBranches: ['main', 'master']
+  },
+  vectorStore: {
+    chromaUrl: 'http://localhost:8000',
+    collectionScope: 'project'
+  }
+};
+
+// A layer may set any subset of keys; arrays replace the lower layer's value
+const ConfigLayerSchema = ConfigSchema.deepPartial();
+
+export type ConfigLayer = z.infer<typeof ConfigLayerSchema>;
+
+export interface LoadedConfig {
+  config: BeeAIConfig;
+  sources: string[]; // Layers that contributed settings, lowest precedence first
+}
+
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Settings a cloned repository must not control: which service receives the code and the user's
+// credentials, and which Git operations run without confirmation (a whole section when no key is given)
+const UNTRUSTED_PROJECT_KEYS: Array<[keyof BeeAIConfig, string?]> = [
+  ['provider', 'name'],
+  ['provider', 'embeddingProvider'],
+  ['provider', 'baseUrl'],
+  ['provider', 'apiKey'],
+  ['provider', 'fixture'],
+  ['vectorStore', 'chromaUrl'],
+  ['permissions']
+];
+
+// Environment variables mapped onto config keys as [section, key, type]
+const ENV_VARIABLES: Record<string, [keyof BeeAIConfig, string, 'string' | 'number']> = {
+  BEE_AI_PROVIDER: ['provider', 'name', 'string'],
+  BEE_AI_MODEL: ['provider', 'model', 'string'],
+  BEE_AI_BASE_URL: ['provider', 'baseUrl', 'string'],
+  BEE_AI_EMBEDDING_PROVIDER: ['provider', 'embeddingProvider', 'string'],
+  BEE_AI_EMBEDDING_MODEL: ['provider', 'embeddingModel', 'string'],
+  BEE_AI_MOCK_FIXTURE: ['provider', 'fixture', 'string'],
+  BEE_AI_MAX_ENTRIES: ['memory', 'maxEntries', 'number'],
+  BEE_AI_CONTEXT_TOKENS: ['memory', 'contextTokens', 'number'],
+  BEE_AI_MAX_DEPTH: ['analysis', 'maxDepth', 'number'],
+  BEE_AI_SIMILARITY_THRESHOLD: ['semanticSearch', 'similarityThreshold', 'number'],
+  BEE_AI_CHROMA_URL: ['vectorStore', 'chromaUrl', 'string'],
+  BEE_AI_COLLECTION_SCOPE: ['vectorStore', 'collectionScope', 'string']
+};
+
+/**
+ * Loads the effective configuration from all layers.
+ * Precedence: CLI flags > environment > project .beeairc > ~/.bee-ai/config > defaults.
+ */
+export function loadConfig(
+  overrides: ConfigLayer = {},
+  cwd: string = process.cwd(),
+  globalDir: string = path.join(os.homedir(), '.bee-ai')
+): LoadedConfig {
+  const layers: Array<{ source: string; values: ConfigLayer }> = [];
+
+  const globalPath = findConfigFile(globalDir, 'config');
+  if (globalPath) {
+    layers.push({ source: globalPath, values: readConfigFile(globalPath) });
+  }
+
+  const projectPath = findProjectConfig(cwd);
+  if (projectPath) {
+    const values = readConfigFile(projectPath);
+    rejectUntrustedKeys(values, projectPath);
+    layers.push({ source: projectPath, values });
+  }
+
+  const envValues = readEnvironment();
+  if (Object.keys(envValues).length > 0) {
+    layers.push({ source: 'environment', values: envValues });
+  }
+
+  if (Object.keys(overrides).length > 0) {
+    layers.push({ source: 'command line', values: validateLayer(overrides, 'command line') });
+  }
+
+  const merged = layers.reduce<ConfigLayer>((config, layer) => mergeLayers(config, layer.values), DEFAULT_CONFIG);
+  const result = ConfigSchema.safeParse(merged);
+
+  if (!result.success) {
+    throw new Error(`Invalid configuration: ${formatIssues(result.error)}`);
+  }
+
+  return {
+    config: result.data,
+    sources: layers.map(layer => layer.source)
+  };
+}
+
+function findConfigFile(dir: string, baseName: string): string | null {
+  for (const ext of CONFIG_EXTENSIONS) {
+    const candidate = path.join(dir, `${baseName}${ext}`);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// The nearest .beeairc wins, so the CLI picks up the repo config from any subdirectory
+function findProjectConfig(cwd: string): string | null {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    const candidate = findConfigFile(dir, '.beeairc');
+    if (candidate) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+function readConfigFile(filePath: string): ConfigLayer {
+  let values: unknown;
+
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    values = filePath.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read configuration file ${filePath}: ${(error as Error).message}`);
+  }
+
+  return validateLayer(values ?? {}, filePath);
+}
+
+function rejectUntrustedKeys(layer: ConfigLayer, source: string): void {
+  for (const [section, key] of UNTRUSTED_PROJECT_KEYS) {
+    const values = layer[section] as Record<string, unknown> | undefined;
+    if (values !== undefined && (key === undefined || values[key] !== undefined)) {
+      throw new Error(`Invalid configuration in ${source}: ${key ? `${section}.${key}` : section} cannot be set in a project config; ` +
+        'set it in ~/.bee-ai/config instead');
+    }
+  }
+}
+
+function readEnvironment(): ConfigLayer {
+  const values: Record<string, Record<string, unknown>> = {};
+
+  for (const [variable, [section, key, type]] of Object.entries(ENV_VARIABLES)) {
+    const raw = process.env[variable];
+    if (raw === undefined || raw === '') continue;
+
+    values[section] = values[section] || {};
+    values[section][key] = type === 'number' ? Number(raw) : raw;
+  }
+
+  return validateLayer(values, 'environment');
+}
+
+function validateLayer(values: unknown, source: string): ConfigLayer {
+  const result = ConfigLayerSchema.safeParse(values);
+  if (!result.success) {
+    throw new Error(`Invalid configuration in ${source}: ${formatIssues(result.error)}`);
+  }
+  return stripUndefined(result.data);
+}
+
+function stripUndefined(layer: ConfigLayer): ConfigLayer {
+  const result: Record<string, Record<string, unknown>> = {};
+
+  for (const [section, values] of Object.entries(layer)) {
+    if (!values) continue;
+    const defined = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+    if (Object.keys(defined).length > 0) {
+      result[section] = defined;
+    }
+  }
+
+  return result as ConfigLayer;
+}
+
+function mergeLayers(base: ConfigLayer, layer: ConfigLayer): ConfigLayer {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [section, values] of Object.entries(layer) as Array<[string, Record<string, unknown> | undefined]>) {
+    const baseSection = (base as Record<string, Record<string, unknown> | undefined>)[section];
+
+    // Provider settings written for another provider (model, base URL, ...) must not leak into this one
+    const switchesProvider = section === 'provider' && values?.name !== undefined &&
+      baseSection?.name !== undefined && baseSection.name !== values.name;
+
+    merged[section] = switchesProvider ? { ...values } : { ...baseSection, ...values };
+  }
+
+  return merged as ConfigLayer;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Renders the configuration for display with secrets masked.
+ */
+export function formatConfig(config: BeeAIConfig, format: 'yaml' | 'json' = 'yaml'): string {
+  const display = {
+    ...config,
+    provider: {
+      ...config.provider,
+      ...(config.provider.apiKey ? { apiKey: '********' } : {})
+    }
+  };
+
+  return format === 'json' ? JSON.stringify(display, null, 2) : YAML.stringify(display).trimEnd();
+}
@@ -0,0 +1,96 @@
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTempDir, writeFile } from './test/helpers.js';
+
+const ROOT = path.resolve('.');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const FIXTURE = path.join(ROOT, 'examples', 'mock-fixture.json');
+
+let home: string;
+let repo: string;
+
+interface CLIResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+// Runs the CLI in the temporary repository with the scripted mock provider
+function cli(...args: string[]): CLIResult {
+  const env = Object.fromEntries(Object.entries(process.env).filter(([name]) =>
+    !name.startsWith('BEE_AI_') && name !== 'BEE_FRAMEWORK_LOG_LEVEL' && name !== 'NODE_OPTIONS'));
+
+  const { status, stdout, stderr } = spawnSync(TSX, [
+    path.join(ROOT, 'src', 'index.ts'), '--provider', 'mock', '--mock-fixture', FIXTURE, ...args
+  ], { cwd: repo, env: { ...env, HOME: home }, input: '', encoding: 'utf-8', timeout: 60000 });
+
+  return { status, stdout, stderr };
+}
+
+beforeAll(() => {
+  home = createTempDir('home');
+  repo = createTempDir('cli');
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo });
+
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.email', 'dev@example.com');
+  git('config', 'user.name', 'Dev');
+  writeFile(repo, 'README.md', '# Demo\n');
+  git('add', '.');
+  git('commit', '-q', '-m', 'Initial commit');
+  writeFile(repo, 'todo.txt', 'write tests\n');
+});
+
+afterAll(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+describe('bee-ai CLI with the mock provider', () => {
+  it('answers a prompt with the output of the scripted tool call', () => {
+    const { status, stdout, stderr } = cli('ask', 'show the git status');
+
+    expect(stderr).toBe('');
+    expect(status).toBe(0);
+    expect(stdout).toMatch(/^Here is the repository status:\n/);
+    expect(stdout).toContain('todo.txt');
+    expect(stdout).not.toContain('"level"');
+  });
+
+  it('falls back to the default answer when no response matches', () => {
+    const { status, stdout } = cli('ask', 'tell me a joke');
+
+    expect(status).toBe(0);
+    expect(stdout).toBe('Mock provider: no scripted response matched this prompt.\n');
+  });
+
+  it('rejects a context budget that is not a positive integer', () => {
+    const { status, stderr } = cli('ask', 'hello', '--context-tokens', 'abc');
+
+    expect(status).not.toBe(0);
+    expect(stderr).toContain('Expected a positive integer.');
+  });
+
+  it('prints a tool result as JSON', () => {
+    const { status, stdout } = cli('tool', 'git', '{"operation": "status"}', '--json');
+
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({
+      operation: 'status',
+      result: { branch: 'main', untracked: ['todo.txt'], clean: false }
+    });
+  });
+
+  it('exits with the tool error code when an operation fails or is refused', () => {
+    const failed = cli('tool', 'git', '{"operation": "blame", "file": "missing.txt"}', '--json');
+    expect(failed.status).toBe(3);
+    expect(failed.stdout).toBe('');
+    expect(failed.stderr).toContain('TOOL_ERROR');
+
+    // Confirmation cannot be asked for without a terminal
+    const refused = cli('tool', 'git', '{"operation": "add", "files": ["todo.txt"]}', '--json');
+    expect(refused.status).toBe(3);
+    expect(JSON.parse(refused.stdout).error).toContain('--yes');
+  });
+});
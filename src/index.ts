@@ -1,21 +1,31 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
-import { program } from 'commander';
+import { program, Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { SessionMemory } from './memory.js';
+import { SessionMemory, MemoryEntry } from './memory.js';
+import { SessionStore } from './sessionStore.js';
 import readline from 'readline';
 
 // BeeAI Framework imports
-import { OpenAIChatModel } from 'beeai-framework/adapters/openai/backend/chat';
 import { ToolCallingAgent } from 'beeai-framework/agents/toolCalling/agent';
 import { UnconstrainedMemory } from 'beeai-framework/memory/unconstrainedMemory';
+import { SystemMessage, UserMessage } from 'beeai-framework/backend/message';
+import { ChatModel } from 'beeai-framework/backend/chat';
+import { AnyTool, JSONToolOutput, Tool } from 'beeai-framework/tools/base';
+import { Emitter, EventMeta } from 'beeai-framework/emitter/emitter';
 import { CalculatorTool } from 'beeai-framework/tools/calculator';
 import { WikipediaTool } from 'beeai-framework/tools/search/wikipedia';
-import { GitTool } from './tools/GitTool.js';
+import { GitTool, GitCommitResult, GitCommitSuggestions, GitStatus } from './tools/GitTool.js';
 import { CodebaseAnalyzer } from './tools/CodebaseAnalyzer.js';
 import { ASTCodebaseAnalyzer } from './tools/ASTCodebaseAnalyzer.js';
+import { OperationResult } from './tools/output.js';
+import { BeeAIConfig, ConfigLayer, loadConfig, formatConfig } from './config.js';
+import { PermissionPolicy } from './permissions.js';
+import { createChromaClient, listProjectCollections, dropProjectCollection, ProjectCollectionInfo } from './search/chromaCollections.js';
+import { listLocalCollections, dropLocalCollection } from './search/localVectorStore.js';
+import { ProviderConfig, loadProviderConfig, validateProviderConfig, createChatModel, createEmbeddingModel } from './providers.js';
 
 interface BeeAIResponse {
   result: {
@@ -31,42 +41,111 @@ interface ErrorDetails {
   suggestion?: string;
 }
 
+interface CLIOptions {
+  interactive?: boolean;
+  session?: string;
+  resume?: boolean;
+  contextTokens?: number;
+  provider?: string;
+  model?: string;
+  mockFixture?: string;
+  yes?: boolean;
+}
+
+// Maps command line flags onto the configuration layer with the highest precedence
+function toConfigOverrides(options: CLIOptions): ConfigLayer {
+  const overrides: ConfigLayer = {};
+
+  if (options.provider || options.model || options.mockFixture) {
+    overrides.provider = { name: options.provider, model: options.model, fixture: options.mockFixture };
+  }
+  if (options.contextTokens) {
+    overrides.memory = { contextTokens: options.contextTokens };
+  }
+
+  return overrides;
+}
+
+// Exit codes used by the non-interactive `ask` command
+const EXIT_CODES: { [key: string]: number } = {
+  'RUNTIME_ERROR': 1,
+  'INIT_ERROR': 1,
+  'API_ERROR': 2,
+  'TOOL_ERROR': 3,
+  'NETWORK_ERROR': 4
+};
+
 class BeeAICLI {
   private memory: SessionMemory;
   private isRunning: boolean = false;
+  private interactive: boolean;
+  private assumeYes: boolean;
+  private config: BeeAIConfig;
+  private providerConfig: ProviderConfig | null = null;
   private agent: ToolCallingAgent | null = null;
-  private llm: OpenAIChatModel | null = null;
+  private tools: AnyTool[] = [];
+  private llm: ChatModel | null = null;
   private lastError: ErrorDetails | null = null;
 
-  constructor() {
-    this.memory = new SessionMemory();
-    this.initializeBeeAI();
+  constructor(options: CLIOptions = {}) {
+    this.interactive = options.interactive ?? true;
+    this.assumeYes = options.yes ?? false;
+    // The framework logs to stdout, where scripts expect only the answer; an explicit level is kept
+    if (!this.interactive && !process.env.BEE_FRAMEWORK_LOG_LEVEL) {
+      process.env.BEE_FRAMEWORK_LOG_LEVEL = 'silent';
+    }
+    this.config = this.loadConfiguration(options);
+    this.memory = this.initializeSession(options);
   }
 
-  private initializeBeeAI(): void {
+  private loadConfiguration(options: CLIOptions): BeeAIConfig {
     try {
-      // Check for OpenAI API key
-      if (!process.env.OPENAI_API_KEY) {
-        this.displayError('OPENAI_API_KEY environment variable is required.', 'INIT_ERROR');
-        process.exit(1);
+      return loadConfig(toConfigOverrides(options)).config;
+    } catch (error) {
+      this.displayError(error as Error, 'INIT_ERROR');
+      process.exit(1);
+    }
+  }
+
+  private initializeSession(options: CLIOptions): SessionMemory {
+    try {
+      const store = new SessionStore();
+      let sessionId = options.session;
+
+      if (options.resume && !sessionId) {
+        const latest = store.getLatest();
+        if (!latest) {
+          throw new Error('No saved sessions to resume.');
+        }
+        sessionId = latest.id;
+      } else if (options.resume && sessionId && !store.exists(sessionId)) {
+        throw new Error(`Session "${sessionId}" does not exist.`);
       }
 
-      // Initialize OpenAI model
-      this.llm = new OpenAIChatModel(
-        process.env.OPENAI_MODEL || 'gpt-4'
-      );
+      const memory = new SessionMemory(this.config.memory.maxEntries, {
+        store,
+        sessionId: sessionId || SessionStore.generateId(),
+        contextTokens: this.config.memory.contextTokens,
+        summarizer: (previousSummary, entries, maxTokens) => this.summarizeConversation(previousSummary, entries, maxTokens)
+      });
+      // A named session continues where it left off
+      memory.load();
+      return memory;
+    } catch (error) {
+      this.displayError(error as Error, 'INIT_ERROR');
+      process.exit(1);
+    }
+  }
+
+  private async initializeBeeAI(): Promise<void> {
+    await this.initializeTools();
 
+    try {
       // Create BeeAI agent with tools
       this.agent = new ToolCallingAgent({
-        llm: this.llm,
+        llm: this.llm!,
         memory: new UnconstrainedMemory(),
-        tools: [
-          new CalculatorTool(),
-          new WikipediaTool(),
-          new GitTool(),
-          new CodebaseAnalyzer(),
-          new ASTCodebaseAnalyzer(),
-        ],
+        tools: this.tools,
         meta: {
           name: 'Bee AI CLI Assistant',
           description: 'A helpful AI assistant with access to calculator, Wikipedia, Git, traditional codebase analysis, and advanced AST-based semantic code analysis tools'
@@ -79,10 +158,64 @@ class BeeAICLI {
     }
   }
 
+  private async initializeTools(): Promise<void> {
+    try {
+      this.providerConfig = loadProviderConfig(this.config.provider);
+
+      // Check provider credentials
+      const missingCredentials = validateProviderConfig(this.providerConfig);
+      if (missingCredentials) {
+        this.displayError(missingCredentials, 'INIT_ERROR');
+        process.exit(1);
+      }
+
+      // The same models are shared by the agent and the analysis tools
+      this.llm = await createChatModel(this.providerConfig);
+      const embeddingModel = await createEmbeddingModel(this.providerConfig);
+
+      // Only the chat can ask for confirmation; one-shot commands need --yes or the allowlist
+      const permissions = new PermissionPolicy({
+        config: this.config.permissions,
+        assumeYes: this.assumeYes,
+        interactive: this.interactive
+      });
+
+      this.tools = [
+        new CalculatorTool(),
+        new WikipediaTool(),
+        new GitTool({
+          authorize: action => permissions.authorize(action),
+          llm: this.llm,
+          commitMessages: this.config.commitMessages
+        }),
+        new CodebaseAnalyzer({
+          analysis: this.config.analysis,
+          cloneDetection: this.config.cloneDetection,
+          architecture: this.config.architecture
+        }),
+        new ASTCodebaseAnalyzer({
+          llm: this.llm,
+          embeddingModel,
+          analysis: this.config.analysis,
+          semanticSearch: this.config.semanticSearch,
+          cloneDetection: this.config.cloneDetection,
+          vectorStore: this.config.vectorStore
+        }),
+      ];
+    } catch (error) {
+      this.displayError(error as Error, 'INIT_ERROR');
+      process.exit(1);
+    }
+  }
+
   async start(): Promise<void> {
+    await this.initializeBeeAI();
+
     console.log(chalk.blue.bold('🐝 Bee AI Agent CLI'));
-    console.log(chalk.gray('Connected to OpenAI with BeeAI Framework'));
+    console.log(chalk.gray(`Connected to ${this.providerConfig!.name} (${this.providerConfig!.model}) with BeeAI Framework`));
     console.log(chalk.gray('Available tools: Calculator, Wikipedia, Git, Codebase Analyzer, AST Code Analyzer'));
+    const restored = this.memory.getHistory().length;
+    console.log(chalk.gray(`Session: ${this.memory.getSessionId()}${restored > 0 ? ` (resumed with ${restored} messages)` : ''}`));
     console.log(chalk.gray('Type your messages below. Enter "quit" to exit.\n'));
     
     this.isRunning = true;
@@ -132,9 +265,160 @@ class BeeAICLI {
     }
   }
 
+  /**
+   * Runs a single agent turn without the interactive UI and returns the process exit code.
+   * Only the answer is written to stdout; errors go to stderr.
+   */
+  async ask(prompt: string): Promise<number> {
+    await this.initializeBeeAI();
+
+    const response = await this.generateResponse(prompt);
+
+    // A failed turn is not saved, so resuming the session does not replay an unanswered question
+    if (this.lastError) {
+      return EXIT_CODES[this.lastError.type] ?? 1;
+    }
+
+    this.memory.addEntry('user', prompt);
+    this.memory.addEntry('assistant', response);
+    process.stdout.write(response.endsWith('\n') ? response : `${response}\n`);
+    return 0;
+  }
+
+  // Runs a single tool operation without the agent; JSON results are pretty-printed
+  async runTool(name: string, input: Record<string, unknown>): Promise<number> {
+    await this.initializeTools();
+
+    const tool = this.tools.find(candidate => candidate.name === name);
+    if (!tool) {
+      this.displayError(`Unknown tool "${name}". Available tools: ${this.tools.map(candidate => candidate.name).join(', ')}`, 'TOOL_ERROR');
+      return EXIT_CODES.TOOL_ERROR;
+    }
+
+    try {
+      const output = await tool.run(input);
+      const failed = output instanceof JSONToolOutput
+        ? 'error' in (output.result as OperationResult)
+        : output.getTextContent().startsWith('Error: ');
+      const text = output instanceof JSONToolOutput
+        ? JSON.stringify(output.result, null, 2)
+        : output.getTextContent();
+
+      process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+      return failed ? EXIT_CODES.TOOL_ERROR : 0;
+    } catch (error) {
+      this.displayError(error as Error, 'TOOL_ERROR');
+      return EXIT_CODES.TOOL_ERROR;
+    }
+  }
+
+  /**
+   * Suggests a message for the staged changes and commits once the user accepts or edits it.
+   * Changes to unrelated areas are offered as separate commits, one area at a time.
+   */
+  async commit(): Promise<number> {
+    await this.initializeTools();
+
+    const git = this.tools.find(tool => tool.name === 'git')!;
+    const runGit = async <T>(input: Record<string, unknown>): Promise<T> => {
+      const output = await git.run({ ...input, outputFormat: 'json' }) as JSONToolOutput<OperationResult<T>>;
+      if ('error' in output.result) {
+        throw new Error(output.result.error);
+      }
+      return output.result.result;
+    };
+
+    try {
+      while (true) {
+        console.log(chalk.gray('Writing a commit message for the staged changes...'));
+        const { suggestions } = await runGit<GitCommitSuggestions>({ operation: 'suggest_commit_message' });
+        let suggestion = suggestions[0];
+
+        if (suggestions.length > 1) {
+          // Committing some files takes them from the working tree, so they must not have unstaged changes
+          const status = await runGit<GitStatus>({ operation: 'status' });
+          const unstaged = new Set(status.files.filter(file => file.workingDir !== ' ' && file.workingDir !== '?').map(file => file.path));
+
+          console.log(chalk.yellow(`The staged changes touch ${suggestions.length} unrelated areas and can be committed one at a time.`));
+          const { choice } = await inquirer.prompt([
+            {
+              type: 'list',
+              name: 'choice',
+              message: 'Which area do you want to commit first?',
+              choices: [
+                ...suggestions.map((candidate, index) => ({
+                  name: `${candidate.area} (${candidate.files.length} files): ${candidate.subject}`,
+                  value: index,
+                  disabled: candidate.files.some(file => unstaged.has(file)) && 'has unstaged changes'
+                })),
+                { name: 'Cancel', value: -1 }
+              ]
+            }
+          ]);
+          if (choice === -1) {
+            console.log(chalk.gray('Commit cancelled.'));
+            return 0;
+          }
+          suggestion = suggestions[choice];
+        }
+
+        console.log(chalk.blue.bold('\n📝 Suggested commit message:\n'));
+        console.log(suggestion.message.split('\n').map(line => `  ${chalk.white(line)}`).join('\n'));
+        console.log(chalk.gray(`\n  Files: ${suggestion.files.join(', ')}\n`));
+
+        const { action } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'action',
+            message: 'Commit with this message?',
+            choices: [
+              { name: 'Accept', value: 'accept' },
+              { name: 'Edit', value: 'edit' },
+              { name: 'Cancel', value: 'cancel' }
+            ]
+          }
+        ]);
+        if (action === 'cancel') {
+          console.log(chalk.gray('Commit cancelled.'));
+          return 0;
+        }
+
+        let message = suggestion.message;
+        if (action === 'edit') {
+          const { edited } = await inquirer.prompt([
+            {
+              type: 'editor',
+              name: 'edited',
+              message: 'Edit the commit message',
+              default: message
+            }
+          ]);
+          message = edited.trim();
+          if (!message) {
+            console.log(chalk.gray('Empty message, commit cancelled.'));
+            return 0;
+          }
+        }
+
+        const result = await runGit<GitCommitResult>({
+          operation: 'commit',
+          message,
+          files: suggestions.length > 1 ? suggestion.files : undefined
+        });
+        console.log(chalk.green(`✅ Committed ${result.commit}: ${message.split('\n')[0]}`));
+
+        // The remaining areas are suggested again on their own
+        if (suggestions.length === 1) {
+          return 0;
+        }
+      }
+    } catch (error) {
+      this.displayError(error as Error, 'TOOL_ERROR');
+      return EXIT_CODES.TOOL_ERROR;
+    }
+  }
+
   private async processInput(input: string, boxWidth?: number): Promise<void> {
-    this.memory.addEntry('user', input);
-    
     // Show agent execution header
     console.log(chalk.magenta('\n🤖 Agent Execution Process:'));
     console.log(chalk.gray('─'.repeat(50)));
@@ -144,6 +428,8 @@ class BeeAICLI {
     console.log(chalk.gray('─'.repeat(50)));
     console.log(chalk.magenta('🏁 Agent Execution Complete\n'));
     
+    // Recorded after the turn so the context of this turn does not repeat the input
+    this.memory.addEntry('user', input);
     this.memory.addEntry('assistant', response);
     
     // Format response to fit within box
@@ -179,62 +465,29 @@ class BeeAICLI {
       // Show thinking process
       await this.streamStep('🤔', 'Thinking', 'Analyzing your request and planning response...');
       
-      // Get conversation context from memory
-      const context = this.memory.getLastEntries(5)
-        .map(entry => `${entry.role}: ${entry.content}`)
-        .join('\n');
+      // Get conversation context from memory, kept within the token budget
+      const context = await this.memory.buildContext();
 
       // Build prompt with context if available
       let prompt = input;
       if (context.trim()) {
-        prompt = `Previous conversation:\n${context}\n\nUser: ${input}`;
-        await this.streamStep('📝', 'Context', 'Adding conversation history to prompt');
+        prompt = `${context}\n\nUser: ${input}`;
+        await this.streamStep('📝', 'Context', this.memory.getSummary()
+          ? 'Adding conversation summary and recent history to prompt'
+          : 'Adding conversation history to prompt');
       }
 
-      await this.streamStep('🎯', 'Planning', 'Determining which tools to use for this task...');
+      // SessionMemory is the single source of conversation context, so the
+      // agent starts every turn with an empty memory instead of accumulating turns
+      this.agent.memory = new UnconstrainedMemory();
 
-      // Set up event listeners for streaming agent steps
-      let finalResponse = '';
-      
-      // Add manual steps since we'll simulate the agent's thinking process
-      await this.streamStep('🚀', 'Starting', 'Agent execution beginning...');
-      
-      // Simulate tool detection and usage
-      if (input.toLowerCase().includes('calculate') || input.match(/\d+/)) {
-        await this.streamStep('🛠️', 'Tool Call', 'Using Calculator: Processing mathematical expression...');
-      }
-      
-      if (input.toLowerCase().includes('wikipedia') || input.toLowerCase().includes('what is') || input.toLowerCase().includes('tell me about')) {
-        await this.streamStep('🛠️', 'Tool Call', 'Using Wikipedia: Searching for relevant information...');
-      }
-      
-      const gitKeywords = ['git', 'commit', 'branch', 'status', 'diff', 'log', 'repository', 'repo'];
-      if (gitKeywords.some(keyword => input.toLowerCase().includes(keyword))) {
-        await this.streamStep('🛠️', 'Tool Call', 'Using Git: Performing version control operations...');
-      }
-      
-      const codebaseKeywords = ['analyze', 'codebase', 'code', 'function', 'class', 'file', 'directory', 'search code', 'find function', 'explain code', 'code structure'];
-      if (codebaseKeywords.some(keyword => input.toLowerCase().includes(keyword))) {
-        await this.streamStep('🛠️', 'Tool Call', 'Using Codebase Analyzer: Analyzing code structure and content...');
-      }
-      
-      const astKeywords = ['ast', 'semantic', 'parse', 'embedding', 'vector', 'intelligent', 'similar code', 'semantic search'];
-      if (astKeywords.some(keyword => input.toLowerCase().includes(keyword))) {
-        await this.streamStep('🛠️', 'Tool Call', 'Using AST Analyzer: Performing semantic code analysis with vector embeddings...');
-      }
-      
-      await this.streamStep('🧠', 'LLM Call', 'Sending request to OpenAI...');
+      // Stream the real tool and LLM events emitted while the agent runs
+      const response = await this.agent
+        .run({ prompt })
+        .observe(emitter => this.observeAgentEvents(emitter));
 
-      // Process with BeeAI agent
-      await this.streamStep('💭', 'Processing', 'Generating response based on analysis...');
+      const finalResponse = response.result?.text || 'Sorry, I could not generate a response.';
       
-      const response = await this.agent.run({
-        prompt: prompt
-      });
-
-      finalResponse = response.result?.text || 'Sorry, I could not generate a response.';
-      
-      await this.streamStep('✅', 'Tool Result', 'Analysis completed successfully');
       await this.streamStep('✨', 'Complete', 'Response generated successfully');
       
       return finalResponse;
@@ -258,15 +511,86 @@ class BeeAICLI {
     }
   }
 
+  private async summarizeConversation(previousSummary: string, entries: MemoryEntry[], maxTokens: number): Promise<string> {
+    if (!this.llm) {
+      throw new Error('LLM not initialized');
+    }
+
+    const transcript = entries
+      .map(entry => `${entry.role}: ${entry.content}`)
+      .join('\n');
+
+    const output = await this.llm.create({
+      messages: [
+        new SystemMessage('You maintain a running summary of a conversation between a user and an AI assistant working on a codebase. Preserve facts, decisions, file names, identifiers and open questions. Reply with the updated summary only.'),
+        new UserMessage(`Current summary:\n${previousSummary || '(none)'}\n\nNew conversation turns to fold into the summary:\n${transcript}\n\nWrite the updated summary in at most ${maxTokens * 3} characters.`)
+      ]
+    });
+
+    return output.getTextContent();
+  }
+
+  private observeAgentEvents(emitter: Emitter<unknown>): void {
+    const startedAt = new Map<string, number>();
+    const elapsed = (event: EventMeta): string => {
+      const runId = event.trace?.runId || event.id;
+      const start = startedAt.get(runId);
+      startedAt.delete(runId);
+      return start !== undefined ? `${Date.now() - start}ms` : '?ms';
+    };
+
+    emitter.match('*.*', (data: any, event: EventMeta) => {
+      if (event.creator instanceof Tool) {
+        const toolName = event.creator.name;
+        // The agent's internal final_answer tool is reported by the "Complete" step
+        if (toolName === 'final_answer') return;
+
+        switch (event.name) {
+          case 'start':
+            startedAt.set(event.trace?.runId || event.id, Date.now());
+            this.showStep('🛠️', 'Tool Call', `${toolName} ${this.truncate(JSON.stringify(data.input), 200)}`);
+            break;
+          case 'success':
+            this.showStep('✅', 'Tool Result', `${toolName} (${elapsed(event)}) → ${this.truncate(data.output.getTextContent(), 200)}`);
+            break;
+          case 'error':
+            this.showStep('❌', 'Tool Error', `${toolName} (${elapsed(event)}) → ${this.truncate(data.error.message, 200)}`);
+            break;
+        }
+      } else if (event.creator instanceof ChatModel) {
+        switch (event.name) {
+          case 'start':
+            startedAt.set(event.trace?.runId || event.id, Date.now());
+            this.showStep('🧠', 'LLM Call', `Sending request to ${event.creator.providerId}:${event.creator.modelId}...`);
+            break;
+          case 'success': {
+            const tokens = data.value?.usage?.totalTokens;
+            this.showStep('💭', 'LLM Response', `Received in ${elapsed(event)}${tokens ? `, ${tokens} tokens` : ''}`);
+            break;
+          }
+          case 'error':
+            this.showStep('❌', 'LLM Error', `${elapsed(event)} → ${this.truncate(data.error.message, 200)}`);
+            break;
+        }
+      }
+    });
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}...` : singleLine;
+  }
+
   private showStep(icon: string, title: string, description: string): void {
+    if (!this.interactive) return;
+
     const timestamp = new Date().toLocaleTimeString();
     console.log(chalk.cyan(`${icon} [${timestamp}] ${chalk.bold(title)}: ${chalk.gray(description)}`));
-    
-    // Add small delay for streaming effect
-    return new Promise(resolve => setTimeout(resolve, 100)) as any;
   }
 
   private async streamStep(icon: string, title: string, description: string): Promise<void> {
+    if (!this.interactive) return;
+
     const timestamp = new Date().toLocaleTimeString();
     
     // Show step with typing effect
@@ -341,6 +665,12 @@ class BeeAICLI {
 
     this.lastError = errorDetails;
 
+    // Plain single-line output for scripts and CI
+    if (!this.interactive) {
+      console.error(`${errorDetails.type}: ${errorDetails.message}`);
+      return;
+    }
+
     // Draw red error box
     console.log(chalk.red('┌' + '─'.repeat(innerWidth) + '┐'));
     
@@ -416,8 +746,8 @@ class BeeAICLI {
 
   private getErrorSuggestion(type: string, message: string): string {
     // API Key related errors
-    if (message.includes('OPENAI_API_KEY') || message.includes('API key')) {
-      return '🔑 Set your OpenAI API key: create .env file with OPENAI_API_KEY=your_key_here';
+    if (message.includes('_API_KEY') || message.includes('API key')) {
+      return '🔑 Set your provider API key: create .env file with e.g. OPENAI_API_KEY=your_key_here';
     }
     
     // Network related errors
@@ -528,9 +858,9 @@ class BeeAICLI {
     console.log(chalk.blue('│') + chalk.white(' Common initialization issues:                                ') + chalk.blue('│'));
     console.log(chalk.blue('├──────────────────────────────────────────────────────────────┤'));
     console.log(chalk.blue('│') + chalk.yellow(' • Missing .env file                                          ') + chalk.blue('│'));
-    console.log(chalk.blue('│') + chalk.gray('   Solution: Create .env file with OPENAI_API_KEY=your_key    ') + chalk.blue('│'));
+    console.log(chalk.blue('│') + chalk.gray('   Solution: Create .env file with your provider API key      ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.yellow(' • Invalid API key                                            ') + chalk.blue('│'));
-    console.log(chalk.blue('│') + chalk.gray('   Solution: Check your OpenAI account for valid key          ') + chalk.blue('│'));
+    console.log(chalk.blue('│') + chalk.gray('   Solution: Check your provider account for valid key        ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.yellow(' • Permission issues                                          ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.gray('   Solution: Check file permissions and directory access      ') + chalk.blue('│'));
     console.log(chalk.blue('└──────────────────────────────────────────────────────────────┘'));
@@ -544,7 +874,7 @@ class BeeAICLI {
     console.log(chalk.blue('│') + chalk.yellow(' • Rate limiting                                              ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.gray('   Solution: Wait and try again, or upgrade your plan        ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.yellow(' • Quota exceeded                                             ') + chalk.blue('│'));
-    console.log(chalk.blue('│') + chalk.gray('   Solution: Check your OpenAI usage dashboard               ') + chalk.blue('│'));
+    console.log(chalk.blue('│') + chalk.gray('   Solution: Check your provider usage dashboard             ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.yellow(' • Invalid request format                                     ') + chalk.blue('│'));
     console.log(chalk.blue('│') + chalk.gray('   Solution: Try rephrasing your request                      ') + chalk.blue('│'));
     console.log(chalk.blue('└──────────────────────────────────────────────────────────────┘'));
@@ -618,19 +948,253 @@ class BeeAICLI {
   private handleQuit(): void {
     console.log(chalk.blue('\n👋 Thanks for using Bee AI CLI!'));
     console.log(chalk.gray(`Session ended with ${this.memory.getHistory().length} messages in memory.`));
+    console.log(chalk.gray(`Resume it with: bee-ai --session ${this.memory.getSessionId()}`));
     this.isRunning = false;
     process.exit(0);
   }
 }
 
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return parsed;
+}
+
 // CLI setup
 program
   .name('bee-ai')
   .description('Bee AI Agent CLI with session memory')
   .version('1.0.0')
-  .action(async () => {
-    const cli = new BeeAICLI();
+  .option('-s, --session <name>', 'Use a named session (continues it if it already exists)')
+  .option('-r, --resume', 'Resume the named session, or the most recent one if no name is given')
+  .option('-p, --provider <name>', 'LLM provider: openai, ollama, anthropic, watsonx or mock (env: BEE_AI_PROVIDER)')
+  .option('-m, --model <id>', 'Chat model to use with the selected provider (env: BEE_AI_MODEL)')
+  .option('--mock-fixture <file>', 'Scripted responses for the mock provider (env: BEE_AI_MOCK_FIXTURE)')
+  .option('--context-tokens <tokens>', 'Token budget for conversation context (default: 2000, env: BEE_AI_CONTEXT_TOKENS)', parsePositiveInteger)
+  .option('-y, --yes', 'Run tool operations that change the repository without asking (protected branches stay refused)')
+  .action(async (options: CLIOptions) => {
+    const cli = new BeeAICLI(options);
     await cli.start();
   });
 
+program
+  .command('ask')
+  .description('Ask a single question and print only the answer (reads the prompt from stdin when piped)')
+  .argument('[prompt...]', 'Prompt to send to the agent')
+  .action(async (promptParts: string[], _options: object, command: Command) => {
+    const argPrompt = promptParts.join(' ').trim();
+    const stdinPrompt = process.stdin.isTTY ? '' : (await readStdin()).trim();
+
+    // A piped input is treated as context for the prompt given on the command line
+    const prompt = [argPrompt, stdinPrompt].filter(Boolean).join('\n\n');
+    if (!prompt) {
+      console.error('No prompt provided. Pass it as an argument or pipe it through stdin.');
+      process.exit(1);
+    }
+
+    const cli = new BeeAICLI({ ...command.optsWithGlobals<CLIOptions>(), interactive: false });
+    process.exit(await cli.ask(prompt));
+  });
+
+program
+  .command('tool')
+  .description('Run a single tool operation and print its result, e.g. bee-ai tool git \'{"operation": "status"}\' --json')
+  .argument('<name>', 'Tool name: git, codebase-analyzer, ast-codebase-analyzer, ...')
+  .argument('[input]', 'Tool input as a JSON object (read from stdin when piped)')
+  .option('--json', 'Request structured output (outputFormat: json) and pretty-print it')
+  .action(async (name: string, inputArg: string | undefined, options: { json?: boolean }, command: Command) => {
+    const source = inputArg ?? (process.stdin.isTTY ? '' : (await readStdin()).trim());
+
+    let input: Record<string, unknown>;
+    try {
+      input = source ? JSON.parse(source) : {};
+    } catch (error) {
+      console.error(`Invalid tool input: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    if (options.json) {
+      input.outputFormat = 'json';
+    }
+
+    const cli = new BeeAICLI({ ...command.optsWithGlobals<CLIOptions>(), interactive: false });
+    process.exit(await cli.runTool(name, input));
+  });
+
+program
+  .command('commit')
+  .description('Suggest a commit message for the staged changes, then accept or edit it and commit')
+  .action(async (_options: object, command: Command) => {
+    // Accepting the message is the confirmation; protected branches are still refused
+    const cli = new BeeAICLI({ ...command.optsWithGlobals<CLIOptions>(), yes: true });
+    process.exit(await cli.commit());
+  });
+
+const sessionsCommand = program
+  .command('sessions')
+  .description('Manage saved conversation sessions');
+
+sessionsCommand
+  .command('list', { isDefault: true })
+  .description('List saved sessions, most recent first')
+  .action(() => {
+    const sessions = new SessionStore().list();
+    if (sessions.length === 0) {
+      console.log(chalk.gray('No saved sessions.'));
+      return;
+    }
+
+    console.log(chalk.blue.bold('💾 Saved Sessions:'));
+    for (const session of sessions) {
+      console.log(`  ${chalk.yellow(session.id)} ${chalk.gray(`- ${session.entries} messages, last active ${session.updatedAt.toLocaleString()}`)}`);
+    }
+  });
+
+sessionsCommand
+  .command('delete')
+  .description('Delete one or more saved sessions')
+  .argument('<names...>', 'Session names to delete')
+  .action((names: string[]) => {
+    const store = new SessionStore();
+    let failed = false;
+
+    for (const name of names) {
+      try {
+        if (store.delete(name)) {
+          console.log(chalk.green(`Deleted session: ${name}`));
+        } else {
+          console.error(chalk.red(`Session not found: ${name}`));
+          failed = true;
+        }
+      } catch (error) {
+        console.error(chalk.red((error as Error).message));
+        failed = true;
+      }
+    }
+
+    if (failed) {
+      process.exitCode = 1;
+    }
+  });
+
+const configCommand = program
+  .command('config')
+  .description('Inspect the layered configuration');
+
+configCommand
+  .command('show')
+  .description('Print the effective configuration and the files it was loaded from')
+  .option('--json', 'Print as JSON instead of YAML')
+  .action((options: { json?: boolean }, command: Command) => {
+    try {
+      const { config, sources } = loadConfig(toConfigOverrides(command.optsWithGlobals<CLIOptions>()));
+
+      if (options.json) {
+        console.log(formatConfig(config, 'json'));
+        return;
+      }
+
+      console.log(chalk.blue.bold('⚙️  Configuration sources (lowest precedence first):'));
+      console.log(chalk.gray(['  defaults', ...sources.map(source => `  ${source}`)].join('\n')));
+      console.log();
+      console.log(formatConfig(config));
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exitCode = 1;
+    }
+  });
+
+const collectionsCommand = program
+  .command('collections')
+  .description('Manage the per-project vector collections used by semantic search');
+
+function printCollections(label: string, collections: ProjectCollectionInfo[]): void {
+  if (collections.length === 0) {
+    console.log(chalk.gray(`No ${label} collections.`));
+    return;
+  }
+
+  console.log(chalk.blue.bold(`🗂️  ${label} Collections:`));
+  for (const collection of collections) {
+    const ref = collection.ref ? ` @ ${collection.ref}` : '';
+    console.log(`  ${chalk.yellow(collection.name)} ${chalk.gray(`- ${collection.root}${ref}, ${collection.chunks} chunks`)}`);
+  }
+}
+
+collectionsCommand
+  .command('list', { isDefault: true })
+  .description('List codebase collections in ChromaDB and the local vector index')
+  .action(async (_options: unknown, command: Command) => {
+    try {
+      const { config } = loadConfig(toConfigOverrides(command.optsWithGlobals<CLIOptions>()));
+
+      try {
+        printCollections('ChromaDB', await listProjectCollections(createChromaClient(config.vectorStore.chromaUrl)));
+      } catch {
+        console.log(chalk.yellow(`⚠️  ChromaDB is not available at ${config.vectorStore.chromaUrl}`));
+      }
+
+      printCollections('Local', listLocalCollections());
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exitCode = 1;
+    }
+  });
+
+collectionsCommand
+  .command('drop')
+  .description('Drop one or more codebase collections')
+  .argument('<names...>', 'Collection names to drop')
+  .action(async (names: string[], _options: unknown, command: Command) => {
+    let failed = false;
+
+    try {
+      const { config } = loadConfig(toConfigOverrides(command.optsWithGlobals<CLIOptions>()));
+      const client = createChromaClient(config.vectorStore.chromaUrl);
+      // An unreachable server must not keep local collections from being dropped
+      const chromaAvailable = await client.heartbeat().then(() => true, () => false);
+      if (!chromaAvailable) {
+        console.log(chalk.yellow(`⚠️  ChromaDB is not available at ${config.vectorStore.chromaUrl}`));
+      }
+
+      for (const name of names) {
+        const dropped: string[] = [];
+
+        try {
+          if (chromaAvailable && await dropProjectCollection(client, name)) {
+            dropped.push('ChromaDB');
+          }
+        } catch (error) {
+          console.error(chalk.red((error as Error).message));
+        }
+        if (dropLocalCollection(name)) {
+          dropped.push('local index');
+        }
+
+        if (dropped.length > 0) {
+          console.log(chalk.green(`Dropped collection: ${name} (${dropped.join(', ')})`));
+        } else {
+          console.error(chalk.red(`Collection not found: ${name}`));
+          failed = true;
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      failed = true;
+    }
+
+    if (failed) {
+      process.exitCode = 1;
+    }
+  });
+
 program.parse();
\ No newline at end of file
@@ -1,29 +1,107 @@
+import { SessionStore } from './sessionStore.js';
+
 export interface MemoryEntry {
   timestamp: Date;
   role: 'user' | 'assistant';
   content: string;
+  tokens: number;
+}
+
+/**
+ * Rolls older conversation turns into a running summary.
+ * Receives the current summary (empty on the first call) and the entries to fold into it.
+ */
+export type Summarizer = (previousSummary: string, entries: MemoryEntry[], maxTokens: number) => Promise<string>;
+
+export interface SessionMemoryOptions {
+  store?: SessionStore;
+  sessionId?: string;
+  contextTokens?: number;
+  summarizer?: Summarizer;
+}
+
+// Rough heuristic (~4 characters per token for English text and code)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
 }
 
 export class SessionMemory {
   private entries: MemoryEntry[] = [];
   private maxEntries: number;
+  private store: SessionStore | null;
+  private sessionId: string | null;
+  private contextTokens: number;
+  private summarizer: Summarizer | null;
+  private summary: string = '';
+  private summarizedCount: number = 0; // Leading entries already folded into the summary
+  private firstEntryIndex: number = 0; // Entries of the session before entries[0]
+  private droppedCount: number = 0; // Entries that could not be summarized
+  private evicted: MemoryEntry[] = []; // Entries pushed out by maxEntries before they were summarized
 
-  constructor(maxEntries: number = 100) {
+  constructor(maxEntries: number = 100, options: SessionMemoryOptions = {}) {
     this.maxEntries = maxEntries;
+    this.store = options.store || null;
+    this.sessionId = options.sessionId || null;
+    this.contextTokens = options.contextTokens || 2000;
+    this.summarizer = options.summarizer || null;
   }
 
   addEntry(role: 'user' | 'assistant', content: string): void {
     const entry: MemoryEntry = {
       timestamp: new Date(),
       role,
-      content
+      content,
+      tokens: estimateTokens(`${role}: ${content}`)
     };
 
     this.entries.push(entry);
 
     if (this.entries.length > this.maxEntries) {
-      this.entries.shift();
+      const removed = this.entries.shift()!;
+      this.firstEntryIndex++;
+      if (this.summarizedCount > 0) {
+        this.summarizedCount--;
+      } else {
+        this.evicted.push(removed);
+      }
     }
+
+    if (this.store && this.sessionId) {
+      this.store.append(this.sessionId, entry);
+    }
+  }
+
+  /**
+   * Restores the most recent entries of the session, and its running summary, from the store.
+   * Returns the number of entries loaded.
+   */
+  load(): number {
+    if (!this.store || !this.sessionId) {
+      return 0;
+    }
+
+    const entries = this.store.load(this.sessionId);
+    const saved = this.store.loadSummary(this.sessionId);
+    this.entries = entries.slice(-this.maxEntries);
+    this.firstEntryIndex = entries.length - this.entries.length;
+    this.summary = saved?.summary ?? '';
+    this.summarizedCount = saved ? Math.min(Math.max(0, saved.summarizedEntries - this.firstEntryIndex), this.entries.length) : 0;
+    // Older entries the saved summary does not cover are not loaded; they are reported as omitted
+    this.droppedCount = Math.max(0, this.firstEntryIndex - (saved?.summarizedEntries ?? 0));
+    this.evicted = [];
+    return this.entries.length;
+  }
+
+  setSummarizer(summarizer: Summarizer): void {
+    this.summarizer = summarizer;
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  getSummary(): string {
+    return this.summary;
   }
 
   getHistory(): MemoryEntry[] {
@@ -36,11 +114,91 @@ export class SessionMemory {
       .join('\n');
   }
 
+  /**
+   * Builds the conversation context for the next prompt within the token budget.
+   * The most recent turns are kept verbatim; older turns that no longer fit are
+   * rolled into the running summary.
+   */
+  async buildContext(): Promise<string> {
+    const previousSummary = this.summary;
+
+    if (this.evicted.length > 0) {
+      await this.summarizeEntries(this.evicted);
+      this.evicted = [];
+    }
+
+    let start = this.findFittingStart();
+
+    // Each pass folds at least one entry, so this always terminates
+    while (start > this.summarizedCount) {
+      await this.summarizeEntries(this.entries.slice(this.summarizedCount, start));
+      this.summarizedCount = start;
+      start = this.findFittingStart();
+    }
+
+    // Saved so that a resumed session does not summarize the same turns again
+    if (this.summary && this.summary !== previousSummary && this.store && this.sessionId) {
+      this.store.appendSummary(this.sessionId, {
+        summary: this.summary,
+        summarizedEntries: this.firstEntryIndex + this.summarizedCount
+      });
+    }
+
+    const sections: string[] = [];
+
+    if (this.droppedCount > 0) {
+      sections.push(`(${this.droppedCount} earlier messages omitted)`);
+    }
+    if (this.summary) {
+      sections.push(`Summary of earlier conversation:\n${this.summary}`);
+    }
+
+    const recent = this.entries.slice(start);
+    if (recent.length > 0) {
+      sections.push(`Previous conversation:\n${recent.map(entry => `${entry.role}: ${entry.content}`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private findFittingStart(): number {
+    let used = estimateTokens(this.summary);
+    let start = this.entries.length;
+
+    while (start > this.summarizedCount && used + this.entries[start - 1].tokens <= this.contextTokens) {
+      start--;
+      used += this.entries[start].tokens;
+    }
+
+    return start;
+  }
+
+  private async summarizeEntries(entries: MemoryEntry[]): Promise<void> {
+    if (!this.summarizer) {
+      this.droppedCount += entries.length;
+      return;
+    }
+
+    try {
+      // Leave most of the budget for the verbatim recent turns
+      const maxTokens = Math.max(100, Math.floor(this.contextTokens / 4));
+      this.summary = (await this.summarizer(this.summary, entries, maxTokens)).trim();
+    } catch (error) {
+      console.warn('Failed to summarize conversation history:', (error as Error).message);
+      this.droppedCount += entries.length;
+    }
+  }
+
   clear(): void {
+    this.firstEntryIndex += this.entries.length;
     this.entries = [];
+    this.summary = '';
+    this.summarizedCount = 0;
+    this.droppedCount = 0;
+    this.evicted = [];
   }
 
   getLastEntries(count: number): MemoryEntry[] {
     return this.entries.slice(-count);
   }
-}
\ No newline at end of file
+}
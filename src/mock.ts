@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import { ChatModel, ChatModelInput, ChatModelOutput, ChatModelParameters } from 'beeai-framework/backend/chat';
+import { EmbeddingModel, EmbeddingModelInput, EmbeddingModelOutput } from 'beeai-framework/backend/embedding';
+import { AssistantMessage, Message, ToolMessage } from 'beeai-framework/backend/message';
+import { Emitter } from 'beeai-framework/emitter/emitter';
+import { estimateTokens } from './memory.js';
+
+export interface MockToolCall {
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+export interface MockResponse {
+  match: string; // Case-insensitive regular expression tested against the latest prompt
+  steps?: MockToolCall[]; // Tool calls made one per turn before answering
+  answer: string; // "{{tool_output}}" is replaced with the output of the last tool call
+}
+
+export interface MockFixture {
+  responses: MockResponse[];
+  defaultAnswer?: string;
+}
+
+const DEFAULT_ANSWER = 'This is a mock response.';
+const EMBEDDING_DIMENSIONS = 256;
+
+export function loadMockFixture(fixturePath?: string): MockFixture {
+  if (!fixturePath) {
+    return { responses: [] };
+  }
+
+  let fixture: MockFixture;
+  try {
+    fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to load mock fixture ${fixturePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(fixture.responses)) {
+    throw new Error(`Invalid mock fixture ${fixturePath}: "responses" must be an array`);
+  }
+  for (const response of fixture.responses) {
+    if (typeof response.match !== 'string' || typeof response.answer !== 'string') {
+      throw new Error(`Invalid mock fixture ${fixturePath}: every response needs a "match" and an "answer"`);
+    }
+  }
+
+  return fixture;
+}
+
+/**
+ * Chat model that replays scripted tool calls and answers from a fixture, without any network access.
+ * Each agent iteration is answered with the next step of the first response whose pattern matches the
+ * latest prompt; once all steps have run, the answer is sent through the final_answer tool.
+ */
+export class MockChatModel extends ChatModel {
+  readonly emitter = Emitter.root.child({
+    namespace: ['backend', 'mock', 'chat'],
+    creator: this
+  });
+
+  private fixture: MockFixture;
+
+  constructor(
+    public readonly modelId: string = 'mock',
+    fixture: MockFixture = { responses: [] },
+    public readonly parameters: ChatModelParameters = {}
+  ) {
+    super();
+    this.fixture = fixture;
+  }
+
+  get providerId(): string {
+    return 'mock';
+  }
+
+  protected async _create(input: ChatModelInput): Promise<ChatModelOutput> {
+    const { prompt, toolOutputs } = this.readConversation(input.messages);
+    const response = this.fixture.responses.find(candidate => new RegExp(candidate.match, 'i').test(prompt));
+    const steps = response?.steps || [];
+    const answer = (response?.answer ?? this.fixture.defaultAnswer ?? DEFAULT_ANSWER)
+      .replace(/\{\{tool_output\}\}/g, toolOutputs[toolOutputs.length - 1] ?? '');
+
+    const toolNames = (input.tools || []).map(tool => tool.name);
+    const step = steps[toolOutputs.length];
+    let message: AssistantMessage;
+
+    if (step && toolNames.includes(step.tool)) {
+      message = this.createToolCall(step.tool, step.input, toolOutputs.length);
+    } else if (toolNames.includes('final_answer')) {
+      message = this.createToolCall('final_answer', { response: answer }, toolOutputs.length);
+    } else {
+      message = new AssistantMessage(answer);
+    }
+
+    const promptTokens = input.messages.reduce((total, msg) => total + estimateTokens(msg.text), 0);
+    const completionTokens = estimateTokens(JSON.stringify(message.content));
+
+    return new ChatModelOutput(
+      [message],
+      { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      message.getToolCalls().length > 0 ? 'tool-calls' : 'stop'
+    );
+  }
+
+  protected async *_createStream(input: ChatModelInput): AsyncGenerator<ChatModelOutput, void> {
+    yield await this._create(input);
+  }
+
+  private readConversation(messages: Message[]): { prompt: string; toolOutputs: string[] } {
+    const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+    const userText = lastUserIndex >= 0 ? messages[lastUserIndex].text : '';
+    // The CLI prepends conversation history; only the current input decides the script
+    const prompt = userText.split('\nUser: ').pop() || '';
+
+    const toolOutputs = messages
+      .slice(lastUserIndex + 1)
+      .filter((msg): msg is ToolMessage => msg instanceof ToolMessage)
+      .flatMap(msg => msg.getToolResults())
+      .filter(result => result.toolName !== 'final_answer')
+      .map(result => {
+        const output = result.output as { value?: unknown };
+        return typeof output?.value === 'string' ? output.value : JSON.stringify(output?.value ?? '');
+      });
+
+    return { prompt, toolOutputs };
+  }
+
+  private createToolCall(toolName: string, input: Record<string, unknown>, index: number): AssistantMessage {
+    return new AssistantMessage({
+      type: 'tool-call',
+      toolCallId: `call_mock_${index}`,
+      toolName,
+      input
+    });
+  }
+
+  createSnapshot() {
+    return {
+      ...super.createSnapshot(),
+      modelId: this.modelId,
+      parameters: this.parameters,
+      fixture: this.fixture
+    };
+  }
+
+  loadSnapshot(snapshot: ReturnType<typeof this.createSnapshot>): void {
+    Object.assign(this, snapshot);
+  }
+}
+
+/**
+ * Embedding model that hashes words into a fixed-size vector, so texts sharing
+ * vocabulary end up close to each other. Deterministic and offline.
+ */
+export class MockEmbeddingModel extends EmbeddingModel {
+  readonly emitter = Emitter.root.child({
+    namespace: ['backend', 'mock', 'embedding'],
+    creator: this
+  });
+
+  constructor(public readonly modelId: string = 'mock-embedding') {
+    super();
+  }
+
+  get providerId(): string {
+    return 'mock';
+  }
+
+  protected async _create(input: EmbeddingModelInput): Promise<EmbeddingModelOutput> {
+    return {
+      values: input.values,
+      embeddings: input.values.map(value => this.embed(value)),
+      usage: { tokens: input.values.reduce((total, value) => total + estimateTokens(value), 0) }
+    };
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+
+    for (const word of words) {
+      vector[this.hash(word) % EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+
+  // FNV-1a, stable across runs and platforms
+  private hash(word: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+
+  createSnapshot() {
+    return {
+      ...super.createSnapshot(),
+      modelId: this.modelId
+    };
+  }
+
+  loadSnapshot(snapshot: ReturnType<typeof this.createSnapshot>): void {
+    Object.assign(this, snapshot);
+  }
+}
@@ -0,0 +1,99 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { PermissionsConfig } from './config.js';
+
+/**
+ * A mutating tool operation about to run.
+ */
+export interface ToolAction {
+  tool: string;
+  operation: string;
+  command: string; // Exact command shown to the user, e.g. `git commit -m "Fix typo"`
+  branch: string | null; // Checked-out branch, also before its first commit; null outside a repository or on a detached HEAD
+}
+
+// Resolves to the reason the action may not run, or null when it may
+export type Authorizer = (action: ToolAction) => Promise<string | null>;
+
+export interface PermissionPolicyOptions {
+  config: PermissionsConfig;
+  assumeYes?: boolean; // --yes
+  interactive?: boolean; // Whether the user can be asked
+}
+
+// Operations that change the repository, the working tree or the index; everything else is read-only
+const MUTATING_OPERATIONS: Record<string, string[]> = {
+  git: [
+    'add', 'commit', 'init', 'create_branch', 'checkout', 'reset',
+    'stash_push', 'stash_pop', 'merge', 'rebase', 'cherry_pick', 'abort', 'continue'
+  ]
+};
+
+// Mutating operations that move or rewrite the checked-out branch (reset only unstages files)
+const BRANCH_OPERATIONS: Record<string, string[]> = {
+  git: ['commit', 'merge', 'rebase', 'cherry_pick', 'continue']
+};
+
+export function isMutatingOperation(tool: string, operation: string): boolean {
+  return MUTATING_OPERATIONS[tool]?.includes(operation) ?? false;
+}
+
+/**
+ * Decides whether a mutating tool operation may run. Operations on a protected
+ * branch are always refused; otherwise allowlisted operations and --yes run
+ * directly, and anything else needs the user's confirmation.
+ */
+export class PermissionPolicy {
+  private config: PermissionsConfig;
+  private assumeYes: boolean;
+  private interactive: boolean;
+
+  constructor(options: PermissionPolicyOptions) {
+    this.config = options.config;
+    this.assumeYes = options.assumeYes ?? false;
+    this.interactive = options.interactive ?? true;
+  }
+
+  async authorize(action: ToolAction): Promise<string | null> {
+    if (!isMutatingOperation(action.tool, action.operation)) {
+      return null;
+    }
+
+    if (action.branch && BRANCH_OPERATIONS[action.tool]?.includes(action.operation) && this.isProtected(action.branch)) {
+      return `Refusing to run ${action.operation} on protected branch "${action.branch}". Switch to another branch first.`;
+    }
+
+    if (this.assumeYes || this.isAllowed(action)) {
+      return null;
+    }
+
+    if (!this.interactive) {
+      return `${action.tool} ${action.operation} changes the repository and needs confirmation: \`${action.command}\`. ` +
+        `Rerun with --yes or add "${action.tool}:${action.operation}" to permissions.allow in the configuration.`;
+    }
+
+    console.log(chalk.yellow(`\n⚠️  The ${action.tool} tool wants to run:`));
+    console.log(chalk.white(`    ${action.command}`));
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'Allow this command?',
+        default: false
+      }
+    ]);
+
+    return confirmed ? null : `The user declined to run \`${action.command}\`.`;
+  }
+
+  private isAllowed(action: ToolAction): boolean {
+    return this.config.allow.some(entry => entry === `${action.tool}:${action.operation}` || entry === `${action.tool}:*`);
+  }
+
+  private isProtected(branch: string): boolean {
+    return this.config.protectedBranches.some(pattern => {
+      const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+      return regex.test(branch);
+    });
+  }
+}
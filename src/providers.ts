@@ -0,0 +1,209 @@
+import { ChatModel } from 'beeai-framework/backend/chat';
+import { EmbeddingModel } from 'beeai-framework/backend/embedding';
+import type { WatsonxClientSettings } from 'beeai-framework/adapters/watsonx/backend/client';
+import { ProviderSettings } from './config.js';
+import { DEFAULT_LOCAL_EMBEDDING_MODEL, LocalEmbeddingModel } from './search/localEmbedding.js';
+
+export const PROVIDER_NAMES = ['openai', 'ollama', 'anthropic', 'watsonx', 'mock'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// Embedding-only backend that runs on the CPU, so code never leaves the machine
+export const LOCAL_EMBEDDING_PROVIDER = 'local';
+
+export type EmbeddingProviderName = ProviderName | typeof LOCAL_EMBEDDING_PROVIDER;
+
+export interface ProviderConfig {
+  name: ProviderName;
+  model: string;
+  embeddingProvider: EmbeddingProviderName | 'none';
+  embeddingModel: string;
+  baseUrl?: string;
+  apiKey?: string;
+  projectId?: string;
+  fixture?: string;
+}
+
+interface ProviderDefaults {
+  model: string;
+  embeddingModel: string;
+  apiKeyEnv?: string;
+  baseUrlEnv?: string;
+  supportsEmbeddings: boolean;
+}
+
+const PROVIDER_DEFAULTS: Record<ProviderName, ProviderDefaults> = {
+  openai: {
+    model: 'gpt-4',
+    embeddingModel: 'text-embedding-3-small',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    baseUrlEnv: 'OPENAI_BASE_URL',
+    supportsEmbeddings: true
+  },
+  ollama: {
+    model: 'llama3.1',
+    embeddingModel: 'nomic-embed-text',
+    baseUrlEnv: 'OLLAMA_BASE_URL',
+    supportsEmbeddings: true
+  },
+  anthropic: {
+    model: 'claude-3-5-sonnet-latest',
+    embeddingModel: '',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    baseUrlEnv: 'ANTHROPIC_BASE_URL',
+    supportsEmbeddings: false
+  },
+  watsonx: {
+    model: 'ibm/granite-3-8b-instruct',
+    embeddingModel: 'ibm/slate-125m-english-rtrvr',
+    apiKeyEnv: 'WATSONX_API_KEY',
+    baseUrlEnv: 'WATSONX_BASE_URL',
+    supportsEmbeddings: true
+  },
+  mock: {
+    model: 'mock',
+    embeddingModel: 'mock-embedding',
+    supportsEmbeddings: true
+  }
+};
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the provider configuration shared by the chat agent and the analysis tools.
+ * The settings come from the layered configuration; anything left unset falls back to
+ * the provider's own environment variables and defaults.
+ */
+export function loadProviderConfig(settings: ProviderSettings = {}): ProviderConfig {
+  const name = settings.name || 'openai';
+
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown provider "${name}". Supported providers: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const defaults = PROVIDER_DEFAULTS[name];
+  const legacyModel = name === 'openai' ? process.env.OPENAI_MODEL : undefined;
+
+  const embeddingProvider = settings.embeddingProvider ||
+    (defaults.supportsEmbeddings ? name : (process.env.OPENAI_API_KEY ? 'openai' : LOCAL_EMBEDDING_PROVIDER));
+
+  if (embeddingProvider !== 'none' && embeddingProvider !== LOCAL_EMBEDDING_PROVIDER && !isProviderName(embeddingProvider)) {
+    throw new Error(`Unknown embedding provider "${embeddingProvider}". Supported providers: ${PROVIDER_NAMES.join(', ')}, ${LOCAL_EMBEDDING_PROVIDER}, none`);
+  }
+
+  const defaultEmbeddingModel = embeddingProvider === 'none' ? '' :
+    embeddingProvider === LOCAL_EMBEDDING_PROVIDER ? DEFAULT_LOCAL_EMBEDDING_MODEL :
+    PROVIDER_DEFAULTS[embeddingProvider].embeddingModel;
+
+  return {
+    name,
+    model: settings.model || legacyModel || defaults.model,
+    embeddingProvider,
+    embeddingModel: settings.embeddingModel || defaultEmbeddingModel,
+    baseUrl: settings.baseUrl || (defaults.baseUrlEnv && process.env[defaults.baseUrlEnv]) || undefined,
+    apiKey: settings.apiKey || (defaults.apiKeyEnv && process.env[defaults.apiKeyEnv]) || undefined,
+    projectId: settings.projectId || process.env.WATSONX_PROJECT_ID,
+    fixture: settings.fixture
+  };
+}
+
+/**
+ * Returns a description of the missing credentials, or null when the provider can be used.
+ */
+export function validateProviderConfig(config: ProviderConfig): string | null {
+  const apiKeyEnv = PROVIDER_DEFAULTS[config.name].apiKeyEnv;
+
+  if (apiKeyEnv && !config.apiKey) {
+    return `${apiKeyEnv} environment variable is required for the ${config.name} provider.`;
+  }
+  if (config.name === 'watsonx' && !config.projectId) {
+    return 'WATSONX_PROJECT_ID environment variable is required for the watsonx provider.';
+  }
+  return null;
+}
+
+export async function createChatModel(config: ProviderConfig): Promise<ChatModel> {
+  try {
+    switch (config.name) {
+      case 'openai': {
+        const { OpenAIChatModel } = await import('beeai-framework/adapters/openai/backend/chat');
+        return new OpenAIChatModel(config.model, {}, { apiKey: config.apiKey, baseURL: config.baseUrl });
+      }
+      case 'ollama': {
+        const { OllamaChatModel } = await import('beeai-framework/adapters/ollama/backend/chat');
+        return new OllamaChatModel(config.model, {}, { baseURL: config.baseUrl });
+      }
+      case 'anthropic': {
+        const { AnthropicChatModel } = await import('beeai-framework/adapters/anthropic/backend/chat');
+        return new AnthropicChatModel(config.model, {}, { apiKey: config.apiKey, baseURL: config.baseUrl });
+      }
+      case 'watsonx': {
+        const { WatsonxChatModel } = await import('beeai-framework/adapters/watsonx/backend/chat');
+        // The authenticator and API version are filled in by the client from the API key and its defaults
+        const settings = { apiKey: config.apiKey, projectId: config.projectId, baseUrl: config.baseUrl } as WatsonxClientSettings;
+        return new WatsonxChatModel(config.model, settings);
+      }
+      case 'mock': {
+        const { MockChatModel, loadMockFixture } = await import('./mock.js');
+        return new MockChatModel(config.model, loadMockFixture(config.fixture));
+      }
+    }
+  } catch (error) {
+    throw wrapAdapterError(config.name, error as Error);
+  }
+}
+
+/**
+ * Creates the embedding model used for semantic search, or null when embeddings are disabled.
+ */
+export async function createEmbeddingModel(config: ProviderConfig): Promise<EmbeddingModel | null> {
+  if (config.embeddingProvider === 'none') {
+    return null;
+  }
+  if (config.embeddingProvider === LOCAL_EMBEDDING_PROVIDER) {
+    return new LocalEmbeddingModel(config.embeddingModel);
+  }
+
+  // Credentials only carry over when embeddings come from the chat provider
+  const sameProvider = config.embeddingProvider === config.name;
+  const apiKeyEnv = PROVIDER_DEFAULTS[config.embeddingProvider].apiKeyEnv;
+  const apiKey = sameProvider ? config.apiKey : (apiKeyEnv ? process.env[apiKeyEnv] : undefined);
+  const baseUrlEnv = PROVIDER_DEFAULTS[config.embeddingProvider].baseUrlEnv;
+  const baseUrl = sameProvider ? config.baseUrl : (baseUrlEnv ? process.env[baseUrlEnv] : undefined);
+
+  try {
+    switch (config.embeddingProvider) {
+      case 'openai': {
+        const { OpenAIEmbeddingModel } = await import('beeai-framework/adapters/openai/backend/embedding');
+        return new OpenAIEmbeddingModel(config.embeddingModel, {}, { apiKey, baseURL: baseUrl });
+      }
+      case 'ollama': {
+        const { OllamaEmbeddingModel } = await import('beeai-framework/adapters/ollama/backend/embedding');
+        return new OllamaEmbeddingModel(config.embeddingModel, {}, { baseURL: baseUrl });
+      }
+      case 'watsonx': {
+        const { WatsonxEmbeddingModel } = await import('beeai-framework/adapters/watsonx/backend/embedding');
+        const settings = { apiKey, projectId: config.projectId, baseUrl } as WatsonxClientSettings;
+        return new WatsonxEmbeddingModel(config.embeddingModel, {}, settings);
+      }
+      case 'mock': {
+        const { MockEmbeddingModel } = await import('./mock.js');
+        return new MockEmbeddingModel(config.embeddingModel);
+      }
+      case 'anthropic':
+        throw new Error('Anthropic does not provide an embedding API. Set BEE_AI_EMBEDDING_PROVIDER to another provider.');
+    }
+  } catch (error) {
+    throw wrapAdapterError(config.embeddingProvider, error as Error);
+  }
+}
+
+function wrapAdapterError(provider: ProviderName, error: Error): Error {
+  // Adapters load their SDKs lazily; a missing optional package surfaces as a module resolution error
+  if ((error as NodeJS.ErrnoException).code === 'ERR_MODULE_NOT_FOUND') {
+    return new Error(`The ${provider} provider requires an additional package: ${error.message}`);
+  }
+  return error;
+}
@@ -0,0 +1,94 @@
+export interface LexicalDocument {
+  id: string;
+  text: string;
+}
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+}
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Splits text into lowercase search terms. Identifiers are also split on case
+ * and underscores, so "createChromaClient" matches a query for "chroma client".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) || []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .filter(Boolean)
+      .map(part => part.toLowerCase());
+
+    terms.push(...parts);
+    if (parts.length > 1) {
+      terms.push(word.toLowerCase());
+    }
+  }
+
+  return terms.filter(term => term.length > 1);
+}
+
+export class Bm25Index {
+  private termFrequencies = new Map<string, Map<string, number>>();
+  private documentFrequencies = new Map<string, number>();
+  private lengths = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(documents: LexicalDocument[]) {
+    for (const document of documents) {
+      const terms = tokenize(document.text);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+
+      this.termFrequencies.set(document.id, frequencies);
+      this.lengths.set(document.id, terms.length);
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+    }
+
+    const totalLength = [...this.lengths.values()].reduce((sum, length) => sum + length, 0);
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  /**
+   * Scores every document containing a query term, best first.
+   */
+  search(query: string, limit: number, filter?: (id: string) => boolean): LexicalMatch[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documentCount = this.termFrequencies.size;
+    const matches: LexicalMatch[] = [];
+
+    for (const [id, frequencies] of this.termFrequencies) {
+      if (filter && !filter(id)) continue;
+
+      const length = this.lengths.get(id) || 0;
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / (this.averageLength || 1)));
+      }
+
+      if (score > 0) {
+        matches.push({ id, score });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { ChromaClient, Collection } from 'chromadb';
+import { simpleGit } from 'simple-git';
+import { hashContent } from '../analysis/indexCache.js';
+
+export type CollectionScope = 'project' | 'branch' | 'commit';
+
+export interface ProjectCollectionInfo {
+  name: string;
+  root: string;
+  ref?: string;
+  chunks: number;
+}
+
+// Marks collections created by the analyzer so listing never touches unrelated data
+const COLLECTION_PREFIX = 'codebase_';
+
+export function createChromaClient(url: string): ChromaClient {
+  const parsed = new URL(url);
+  return new ChromaClient({
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : (parsed.protocol === 'https:' ? 443 : 8000),
+    ssl: parsed.protocol === 'https:'
+  });
+}
+
+/**
+ * Resolves the collection for a project root, e.g. "codebase_my-app_3f2a9c1e" or,
+ * scoped to the checked out branch, "codebase_my-app_3f2a9c1e_feature-login".
+ */
+export async function resolveProjectCollection(root: string, scope: CollectionScope): Promise<{ name: string; ref?: string }> {
+  const resolvedRoot = path.resolve(root);
+  const ref = scope === 'project' ? undefined : await resolveGitRef(resolvedRoot, scope);
+
+  const parts = [
+    sanitize(path.basename(resolvedRoot)).slice(0, 40) || 'root',
+    hashContent(resolvedRoot).slice(0, 8)
+  ];
+  if (ref) {
+    parts.push(sanitize(ref).slice(0, 60));
+  }
+
+  return { name: `${COLLECTION_PREFIX}${parts.join('_')}`, ref };
+}
+
+async function resolveGitRef(root: string, scope: 'branch' | 'commit'): Promise<string | undefined> {
+  try {
+    const git = simpleGit(root);
+    const args = scope === 'branch' ? ['--abbrev-ref', 'HEAD'] : ['--short', 'HEAD'];
+    const ref = (await git.revparse(args)).trim();
+    // A detached HEAD has no branch name; fall back to the commit
+    return ref === 'HEAD' ? (await git.revparse(['--short', 'HEAD'])).trim() : ref;
+  } catch {
+    return undefined; // Not a git repository: scope to the project only
+  }
+}
+
+// Collection names may only contain [a-zA-Z0-9._-] and must start and end with an alphanumeric character
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^[^a-zA-Z0-9]+|[^a-zA-Z0-9]+$/g, '');
+}
+
+export async function openProjectCollection(client: ChromaClient, name: string, root: string, ref?: string): Promise<Collection> {
+  return client.getOrCreateCollection({
+    name,
+    metadata: {
+      'hnsw:space': 'cosine',
+      root: path.resolve(root),
+      ...(ref ? { ref } : {})
+    },
+    embeddingFunction: null // Vectors always come from the configured embedding model
+  });
+}
+
+async function listAllCollections(client: ChromaClient): Promise<Collection[]> {
+  const pageSize = 100;
+  const collections: Collection[] = [];
+
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await client.listCollections({ limit: pageSize, offset });
+    collections.push(...page);
+    if (page.length < pageSize) break;
+  }
+
+  return collections;
+}
+
+export async function listProjectCollections(client: ChromaClient): Promise<ProjectCollectionInfo[]> {
+  const collections = await listAllCollections(client);
+  const projects: ProjectCollectionInfo[] = [];
+
+  for (const collection of collections) {
+    if (!collection.name.startsWith(COLLECTION_PREFIX)) continue;
+
+    const metadata = collection.metadata || {};
+    projects.push({
+      name: collection.name,
+      root: typeof metadata.root === 'string' ? metadata.root : 'unknown',
+      ref: typeof metadata.ref === 'string' ? metadata.ref : undefined,
+      chunks: await collection.count()
+    });
+  }
+
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Drops an analyzer collection. Returns false when no such collection exists.
+ */
+export async function dropProjectCollection(client: ChromaClient, name: string): Promise<boolean> {
+  if (!name.startsWith(COLLECTION_PREFIX)) {
+    throw new Error(`"${name}" is not a codebase collection (expected the "${COLLECTION_PREFIX}" prefix)`);
+  }
+
+  const collections = await listAllCollections(client);
+  if (!collections.some(collection => collection.name === name)) {
+    return false;
+  }
+
+  await client.deleteCollection({ name });
+  return true;
+}
@@ -0,0 +1,81 @@
+import { Collection, Where } from 'chromadb';
+import { StoredVector, VectorMatch, VectorQueryOptions, VectorRecord, VectorStore } from './vectorStore.js';
+
+// Page size for reading from and writing to ChromaDB
+const PAGE_SIZE = 500;
+
+export class ChromaVectorStore implements VectorStore {
+  readonly kind = 'chroma';
+  readonly name: string;
+  private collection: Collection;
+
+  constructor(collection: Collection) {
+    this.collection = collection;
+    this.name = collection.name;
+  }
+
+  async list(): Promise<StoredVector[]> {
+    const vectors: StoredVector[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.collection.get({
+        include: ['metadatas', 'embeddings'],
+        limit: PAGE_SIZE,
+        offset
+      });
+
+      page.ids.forEach((id, index) => {
+        const embedding = page.embeddings[index];
+        if (embedding) {
+          vectors.push({ id, embedding, metadata: (page.metadatas[index] || {}) as StoredVector['metadata'] });
+        }
+      });
+
+      if (page.ids.length < PAGE_SIZE) break;
+    }
+
+    return vectors;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (let start = 0; start < records.length; start += PAGE_SIZE) {
+      const batch = records.slice(start, start + PAGE_SIZE);
+      await this.collection.upsert({
+        ids: batch.map(record => record.id),
+        embeddings: batch.map(record => record.embedding),
+        metadatas: batch.map(record => record.metadata),
+        documents: batch.map(record => record.document)
+      });
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (let start = 0; start < ids.length; start += PAGE_SIZE) {
+      await this.collection.delete({ ids: ids.slice(start, start + PAGE_SIZE) });
+    }
+  }
+
+  async query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const results = await this.collection.query({
+      queryEmbeddings: [embedding],
+      nResults: options.limit,
+      where: toWhereClause(options.where),
+      include: ['documents', 'metadatas', 'distances']
+    });
+
+    // The collections use cosine space, where distance = 1 - similarity
+    return results.ids[0].map((id, index) => ({
+      id,
+      document: results.documents[0][index] ?? '',
+      metadata: (results.metadatas[0][index] || {}) as VectorMatch['metadata'],
+      similarity: 1 - (results.distances[0][index] ?? 1)
+    }));
+  }
+}
+
+// Chroma only accepts a single field per filter; several fields are combined with $and
+function toWhereClause(where?: VectorQueryOptions['where']): Where | undefined {
+  const clauses: Where[] = Object.entries(where || {}).map(([key, value]) => ({ [key]: value }));
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
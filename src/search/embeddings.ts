@@ -0,0 +1,60 @@
+import { EmbeddingModel } from 'beeai-framework/backend/embedding';
+
+export interface EmbedOptions {
+  batchSize: number;
+  maxRetries: number;
+  initialDelayMs?: number;
+  onBatchError?: (error: Error, batch: string[]) => void;
+}
+
+/**
+ * Embeds values in batches, retrying each failed batch with exponential backoff.
+ * Returns one vector per value, or null for values whose batch kept failing.
+ */
+export async function embedInBatches(
+  model: EmbeddingModel,
+  values: string[],
+  options: EmbedOptions
+): Promise<Array<number[] | null>> {
+  const results: Array<number[] | null> = [];
+
+  for (let start = 0; start < values.length; start += options.batchSize) {
+    const batch = values.slice(start, start + options.batchSize);
+
+    try {
+      const embeddings = await withRetry(
+        async () => {
+          // Retries are handled here so the backoff applies per batch
+          const { embeddings } = await model.create({ values: batch, maxRetries: 0 });
+          return embeddings;
+        },
+        options.maxRetries,
+        options.initialDelayMs ?? 500
+      );
+      results.push(...embeddings);
+    } catch (error) {
+      options.onBatchError?.(error as Error, batch);
+      results.push(...batch.map(() => null));
+    }
+  }
+
+  return results;
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, maxRetries: number, initialDelayMs: number): Promise<T> {
+  let attempt = 0;
+
+  while (true) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries) {
+        throw error;
+      }
+
+      const delay = initialDelayMs * 2 ** attempt;
+      attempt++;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
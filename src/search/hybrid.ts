@@ -0,0 +1,30 @@
+export interface RankedList {
+  source: 'vector' | 'lexical';
+  ids: string[]; // Best match first
+}
+
+export interface FusedResult {
+  id: string;
+  score: number;
+  ranks: Partial<Record<RankedList['source'], number>>; // 1-based rank in each list that contained the id
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) for every id it
+ * ranks, so items found by both retrievers rise to the top without having to
+ * calibrate BM25 scores against cosine similarities.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = 60): FusedResult[] {
+  const fused = new Map<string, FusedResult>();
+
+  for (const list of lists) {
+    list.ids.forEach((id, index) => {
+      const result = fused.get(id) || { id, score: 0, ranks: {} };
+      result.score += 1 / (k + index + 1);
+      result.ranks[list.source] = index + 1;
+      fused.set(id, result);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
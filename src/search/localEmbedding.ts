@@ -0,0 +1,103 @@
+import { EmbeddingModel, EmbeddingModelInput, EmbeddingModelOutput } from 'beeai-framework/backend/embedding';
+import { Emitter } from 'beeai-framework/emitter/emitter';
+import { tokenize } from './bm25.js';
+
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'hashing-512';
+
+/**
+ * CPU-only embedding model for code that must not leave the machine.
+ * Terms (with identifiers split into their words) and their character trigrams
+ * are hashed into a fixed number of dimensions with a sign bit, weighted by
+ * log term frequency and normalized, so texts sharing vocabulary, including
+ * partial words such as "auth" and "authentication", land close together.
+ * The model id selects the size, e.g. "hashing-512" or "hashing-1024".
+ */
+export class LocalEmbeddingModel extends EmbeddingModel {
+  readonly emitter = Emitter.root.child({
+    namespace: ['backend', 'local', 'embedding'],
+    creator: this
+  });
+
+  private dimensions: number;
+
+  constructor(public readonly modelId: string = DEFAULT_LOCAL_EMBEDDING_MODEL) {
+    super();
+    this.dimensions = LocalEmbeddingModel.parseDimensions(modelId);
+  }
+
+  get providerId(): string {
+    return 'local';
+  }
+
+  private static parseDimensions(modelId: string): number {
+    const match = /^hashing-(\d+)$/.exec(modelId);
+    const dimensions = match ? Number(match[1]) : NaN;
+
+    if (!Number.isInteger(dimensions) || dimensions < 64 || dimensions > 4096) {
+      throw new Error(`Unknown local embedding model "${modelId}". Use "hashing-<dimensions>" with 64 to 4096 dimensions, e.g. "${DEFAULT_LOCAL_EMBEDDING_MODEL}".`);
+    }
+    return dimensions;
+  }
+
+  protected async _create(input: EmbeddingModelInput): Promise<EmbeddingModelOutput> {
+    let tokens = 0;
+    const embeddings = input.values.map(value => {
+      const terms = tokenize(value);
+      tokens += terms.length;
+      return this.embed(terms);
+    });
+
+    return { values: input.values, embeddings, usage: { tokens } };
+  }
+
+  private embed(terms: string[]): number[] {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [term, count] of counts) {
+      const weight = 1 + Math.log(count);
+      this.addFeature(vector, `w:${term}`, weight);
+
+      // Trigrams carry half the weight in total, whatever the term length
+      const padded = `^${term}$`;
+      const trigrams = padded.length - 2;
+      for (let i = 0; i < trigrams; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, weight * 0.5 / trigrams);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // The sign bit keeps colliding features from always adding up
+    vector[hash % this.dimensions] += (hash & 0x80000000) ? -weight : weight;
+  }
+
+  createSnapshot() {
+    return {
+      ...super.createSnapshot(),
+      modelId: this.modelId,
+      dimensions: this.dimensions
+    };
+  }
+
+  loadSnapshot(snapshot: ReturnType<typeof this.createSnapshot>): void {
+    Object.assign(this, snapshot);
+  }
+}
+
+// FNV-1a, stable across runs and platforms
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectCollectionInfo } from './chromaCollections.js';
+import {
+  cosineSimilarity,
+  StoredVector,
+  VectorMatch,
+  VectorMetadata,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore
+} from './vectorStore.js';
+
+interface LocalRecord {
+  embedding: string; // Float32 values, base64 encoded
+  document: string;
+  metadata: VectorMetadata;
+}
+
+interface LocalStoreContents {
+  version: number;
+  name: string;
+  root: string;
+  ref?: string;
+  records: Record<string, LocalRecord>;
+}
+
+const LOCAL_STORE_VERSION = 1;
+
+export const DEFAULT_LOCAL_STORE_DIR = path.join(os.homedir(), '.bee-ai', 'vectors');
+
+/**
+ * File-backed vector collection used when no ChromaDB server is reachable.
+ * Searches are exact (brute-force cosine similarity), which stays fast for the
+ * few thousand chunks a single project produces.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly kind = 'local';
+  readonly name: string;
+  private filePath: string;
+  private root: string;
+  private ref?: string;
+  private records: Record<string, LocalRecord> | null = null;
+  private vectors = new Map<string, Float32Array>(); // Decoded embeddings, filled on demand
+
+  constructor(name: string, root: string, ref?: string, storeDir: string = DEFAULT_LOCAL_STORE_DIR) {
+    this.name = name;
+    this.root = path.resolve(root);
+    this.ref = ref;
+    this.filePath = path.join(storeDir, `${name}.json`);
+  }
+
+  async list(): Promise<StoredVector[]> {
+    return Object.entries(this.load()).map(([id, record]) => ({
+      id,
+      embedding: Array.from(this.getVector(id, record)),
+      metadata: record.metadata
+    }));
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const stored = this.load();
+    for (const record of records) {
+      stored[record.id] = {
+        embedding: encodeVector(record.embedding),
+        document: record.document,
+        metadata: record.metadata
+      };
+      this.vectors.set(record.id, Float32Array.from(record.embedding));
+    }
+    this.save();
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const stored = this.load();
+    for (const id of ids) {
+      delete stored[id];
+      this.vectors.delete(id);
+    }
+    this.save();
+  }
+
+  async query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const where = Object.entries(options.where || {});
+    const matches: VectorMatch[] = [];
+
+    for (const [id, record] of Object.entries(this.load())) {
+      if (!where.every(([key, value]) => record.metadata[key] === value)) continue;
+
+      matches.push({
+        id,
+        document: record.document,
+        metadata: record.metadata,
+        similarity: cosineSimilarity(embedding, this.getVector(id, record))
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit);
+  }
+
+  private load(): Record<string, LocalRecord> {
+    if (this.records) {
+      return this.records;
+    }
+
+    try {
+      const contents = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as LocalStoreContents;
+      this.records = contents.version === LOCAL_STORE_VERSION ? contents.records || {} : {};
+    } catch {
+      this.records = {};
+    }
+
+    return this.records;
+  }
+
+  private save(): void {
+    const contents: LocalStoreContents = {
+      version: LOCAL_STORE_VERSION,
+      name: this.name,
+      root: this.root,
+      ...(this.ref ? { ref: this.ref } : {}),
+      records: this.load()
+    };
+
+    // Write to a temporary file first so an interrupted save never leaves a truncated index
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(contents), 'utf-8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private getVector(id: string, record: LocalRecord): Float32Array {
+    let vector = this.vectors.get(id);
+    if (!vector) {
+      vector = decodeVector(record.embedding);
+      this.vectors.set(id, vector);
+    }
+    return vector;
+  }
+}
+
+export function listLocalCollections(storeDir: string = DEFAULT_LOCAL_STORE_DIR): ProjectCollectionInfo[] {
+  if (!fs.existsSync(storeDir)) {
+    return [];
+  }
+
+  const collections: ProjectCollectionInfo[] = [];
+  for (const file of fs.readdirSync(storeDir).filter(file => file.endsWith('.json'))) {
+    try {
+      const contents = JSON.parse(fs.readFileSync(path.join(storeDir, file), 'utf-8')) as LocalStoreContents;
+      collections.push({
+        name: contents.name,
+        root: contents.root,
+        ref: contents.ref,
+        chunks: Object.keys(contents.records || {}).length
+      });
+    } catch {
+      // Unreadable files are left alone; they are rewritten on the next sync
+    }
+  }
+
+  return collections.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Deletes a local collection. Returns false when no such collection exists.
+ */
+export function dropLocalCollection(name: string, storeDir: string = DEFAULT_LOCAL_STORE_DIR): boolean {
+  const filePath = path.join(storeDir, `${name}.json`);
+  // Names come from the user; never resolve outside the store directory
+  if (path.dirname(filePath) !== path.resolve(storeDir) || !fs.existsSync(filePath)) {
+    return false;
+  }
+
+  fs.unlinkSync(filePath);
+  return true;
+}
+
+function encodeVector(values: number[]): string {
+  return Buffer.from(Float32Array.from(values).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64');
+  // Copy into an aligned buffer; Buffer.from may return a view into a shared pool
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+}
@@ -0,0 +1,55 @@
+export type VectorMetadata = Record<string, string | number | boolean>;
+
+export interface VectorRecord {
+  id: string;
+  embedding: number[];
+  document: string;
+  metadata: VectorMetadata;
+}
+
+export interface StoredVector {
+  id: string;
+  embedding: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  document: string;
+  metadata: VectorMetadata;
+  similarity: number; // Cosine similarity, 1 for identical directions
+}
+
+export interface VectorQueryOptions {
+  limit: number;
+  where?: VectorMetadata; // Exact matches on metadata fields
+}
+
+/**
+ * A collection of embedded code chunks for one project (see resolveProjectCollection).
+ */
+export interface VectorStore {
+  readonly name: string;
+  readonly kind: 'chroma' | 'local';
+  list(): Promise<StoredVector[]>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]>;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
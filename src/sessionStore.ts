@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryEntry, estimateTokens } from './memory.js';
+
+export interface SessionInfo {
+  id: string;
+  path: string;
+  entries: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionSummary {
+  summary: string;
+  summarizedEntries: number; // Entries folded into the summary, counted from the first entry of the session
+}
+
+interface StoredMemoryEntry {
+  timestamp: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Written after each summarization; the latest one wins on load
+interface StoredSummary extends SessionSummary {
+  type: 'summary';
+  timestamp: string;
+}
+
+export class SessionStore {
+  private baseDir: string;
+
+  constructor(baseDir: string = path.join(os.homedir(), '.bee-ai', 'sessions')) {
+    this.baseDir = baseDir;
+  }
+
+  // Milliseconds and a random suffix keep concurrent runs (e.g. parallel CI jobs) out of each other's files
+  static generateId(date: Date = new Date()): string {
+    const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+    const suffix = Math.floor(Math.random() * 0x10000).toString(16).padStart(4, '0');
+    return `session-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+      `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}${pad(date.getMilliseconds(), 3)}-${suffix}`;
+  }
+
+  getSessionPath(id: string): string {
+    // Session names become file names, so keep them to a safe character set
+    if (!/^[\w.-]+$/.test(id) || id.startsWith('.')) {
+      throw new Error(`Invalid session name: "${id}". Use letters, digits, ".", "-" and "_" only.`);
+    }
+    return path.join(this.baseDir, `${id}.jsonl`);
+  }
+
+  exists(id: string): boolean {
+    return fs.existsSync(this.getSessionPath(id));
+  }
+
+  load(id: string): MemoryEntry[] {
+    return this.readRecords(id)
+      .filter((stored): stored is StoredMemoryEntry => !('type' in stored))
+      .map(stored => ({
+        timestamp: new Date(stored.timestamp),
+        role: stored.role,
+        content: stored.content,
+        tokens: estimateTokens(`${stored.role}: ${stored.content}`)
+      }));
+  }
+
+  loadSummary(id: string): SessionSummary | null {
+    const summaries = this.readRecords(id).filter((stored): stored is StoredSummary => 'type' in stored && stored.type === 'summary');
+    const latest = summaries[summaries.length - 1];
+    return latest ? { summary: latest.summary, summarizedEntries: latest.summarizedEntries } : null;
+  }
+
+  private readRecords(id: string): Array<StoredMemoryEntry | StoredSummary> {
+    const sessionPath = this.getSessionPath(id);
+    if (!fs.existsSync(sessionPath)) {
+      return [];
+    }
+
+    const records: Array<StoredMemoryEntry | StoredSummary> = [];
+    const lines = fs.readFileSync(sessionPath, 'utf-8').split('\n');
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip lines that were only partially written (e.g. the process was killed mid-write)
+        continue;
+      }
+    }
+
+    return records;
+  }
+
+  append(id: string, entry: MemoryEntry): void {
+    const sessionPath = this.getSessionPath(id);
+    fs.mkdirSync(this.baseDir, { recursive: true });
+
+    const stored: StoredMemoryEntry = {
+      timestamp: entry.timestamp.toISOString(),
+      role: entry.role,
+      content: entry.content
+    };
+    fs.appendFileSync(sessionPath, JSON.stringify(stored) + '\n', 'utf-8');
+  }
+
+  appendSummary(id: string, summary: SessionSummary): void {
+    const sessionPath = this.getSessionPath(id);
+    fs.mkdirSync(this.baseDir, { recursive: true });
+
+    const stored: StoredSummary = {
+      type: 'summary',
+      timestamp: new Date().toISOString(),
+      ...summary
+    };
+    fs.appendFileSync(sessionPath, JSON.stringify(stored) + '\n', 'utf-8');
+  }
+
+  list(): SessionInfo[] {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+
+    const sessions: SessionInfo[] = [];
+
+    for (const fileName of fs.readdirSync(this.baseDir)) {
+      if (!fileName.endsWith('.jsonl')) continue;
+
+      const id = fileName.slice(0, -'.jsonl'.length);
+      const entries = this.load(id);
+      const stats = fs.statSync(path.join(this.baseDir, fileName));
+
+      sessions.push({
+        id,
+        path: path.join(this.baseDir, fileName),
+        entries: entries.length,
+        createdAt: entries.length > 0 ? entries[0].timestamp : stats.birthtime,
+        updatedAt: entries.length > 0 ? entries[entries.length - 1].timestamp : stats.mtime
+      });
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  getLatest(): SessionInfo | null {
+    return this.list()[0] || null;
+  }
+
+  delete(id: string): boolean {
+    const sessionPath = this.getSessionPath(id);
+    if (!fs.existsSync(sessionPath)) {
+      return false;
+    }
+    fs.unlinkSync(sessionPath);
+    return true;
+  }
+}
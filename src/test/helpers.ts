@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnyTool, JSONToolOutput, ToolInputRaw } from 'beeai-framework/tools/base';
+import { OperationResult } from '../tools/output.js';
+
+export function createTempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `bee-ai-${prefix}-`));
+}
+
+export function writeFile(root: string, file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), content);
+}
+
+/**
+ * Runs operations of a tool with shared input, such as the repository path, and returns their JSON output.
+ */
+export class ToolRunner<TTool extends AnyTool> {
+  constructor(readonly tool: TTool, private defaults: Partial<ToolInputRaw<TTool>> = {}) {}
+
+  async run<T = unknown>(input: ToolInputRaw<TTool>): Promise<OperationResult<T>> {
+    const output = await this.tool.run({ ...this.defaults, ...input, outputFormat: 'json' });
+    return (output as JSONToolOutput<OperationResult<T>>).result;
+  }
+
+  // The result of an operation that is expected to succeed
+  async result<T = unknown>(input: ToolInputRaw<TTool>): Promise<T> {
+    const response = await this.run<T>(input);
+    if ('error' in response) {
+      throw new Error(response.error);
+    }
+    return response.result;
+  }
+}
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ASTAnalysisOverview, ASTCodebaseAnalyzer, CloneReport, DefinitionResult, ReferencesResult, SemanticSearchResults } from './ASTCodebaseAnalyzer.js';
+import { MockEmbeddingModel } from '../mock.js';
+import { DEFAULT_CONFIG } from '../config.js';
+import { ToolRunner, createTempDir, writeFile } from '../test/helpers.js';
+
+let storeDir: string;
+let project: string;
+let analyzer: ToolRunner<ASTCodebaseAnalyzer>;
+
+function write(file: string, content: string): void {
+  writeFile(project, file, content);
+}
+
+// Two copies of the same function under different names, for clone detection
+function totalFunction(name: string): string {
+  return [
+    `export function ${name}(items: Array<{ price: number; quantity: number }>): number {`,
+    '  let total = 0;',
+    '  for (const item of items) {',
+    '    if (item.quantity > 0) {',
+    '      total += item.price * item.quantity;',
+    '    }',
+    '  }',
+    '  return Math.round(total * 100) / 100;',
+    '}'
+  ].join('\n');
+}
+
+beforeAll(() => {
+  storeDir = createTempDir('vectors');
+  project = createTempDir('ast');
+
+  write('src/memory.ts', [
+    '/** Keeps the conversation history of a session in memory. */',
+    'export class SessionMemory {',
+    '  private entries: string[] = [];',
+    '',
+    '  remember(entry: string): void {',
+    '    this.entries.push(entry);',
+    '  }',
+    '}'
+  ].join('\n'));
+  write('src/cart.ts', [
+    "import { SessionMemory } from './memory.js';",
+    '',
+    totalFunction('cartTotal'),
+    '',
+    'export function track(memory: SessionMemory): void {',
+    "  memory.remember('cart');",
+    '}'
+  ].join('\n'));
+  write('src/invoice.ts', totalFunction('invoiceTotal'));
+
+  analyzer = new ToolRunner(new ASTCodebaseAnalyzer({
+    embeddingModel: new MockEmbeddingModel(),
+    analysis: { ...DEFAULT_CONFIG.analysis, cache: false },
+    semanticSearch: DEFAULT_CONFIG.semanticSearch,
+    cloneDetection: { ...DEFAULT_CONFIG.cloneDetection, minNodes: 10 },
+    // Nothing listens on the discard port, so the local vector index is used
+    vectorStore: { ...DEFAULT_CONFIG.vectorStore, chromaUrl: 'http://127.0.0.1:9' },
+    localStoreDir: storeDir
+  }), { path: project });
+});
+
+afterAll(() => {
+  fs.rmSync(project, { recursive: true, force: true });
+  fs.rmSync(storeDir, { recursive: true, force: true });
+});
+
+describe('ASTCodebaseAnalyzer', () => {
+  it('parses the project and embeds its chunks into the local vector index', async () => {
+    const overview = await analyzer.result<ASTAnalysisOverview>({ operation: 'analyze_ast' });
+
+    expect(overview.parsedFiles).toEqual({ 'JavaScript/TypeScript': 3 });
+    expect(overview.vectorStore?.kind).toBe('local');
+    expect(overview.embeddings).toMatchObject({ embedded: overview.chunks, failed: 0 });
+  });
+
+  it('finds code by meaning and by keyword', async () => {
+    const search = await analyzer.result<SemanticSearchResults>({
+      operation: 'semantic_search',
+      query: 'session memory remember entry',
+      similarity_threshold: 0.1
+    });
+
+    expect(search.usedVectors).toBe(true);
+    expect(search.hits[0]).toMatchObject({ name: 'SessionMemory', file: path.join('src', 'memory.ts') });
+  });
+
+  it('resolves definitions and references across imports', async () => {
+    const definition = await analyzer.result<DefinitionResult>({ operation: 'goto_definition', symbol: 'SessionMemory' });
+    expect(definition.definitions).toEqual([
+      expect.objectContaining({ name: 'SessionMemory', kind: 'class', file: path.join('src', 'memory.ts'), line: 2 })
+    ]);
+
+    const references = await analyzer.result<ReferencesResult>({ operation: 'find_references', symbol: 'SessionMemory' });
+    expect(references.definitions).toHaveLength(1);
+    expect(references.definitions[0].references.map(reference => [reference.file, reference.line, reference.isImport])).toEqual([
+      [path.join('src', 'cart.ts'), 1, true],
+      [path.join('src', 'cart.ts'), 13, false]
+    ]);
+  });
+
+  it('groups renamed copies of a function as clones', async () => {
+    const report = await analyzer.result<CloneReport>({ operation: 'find_clones' });
+
+    expect(report.groups).toHaveLength(1);
+    expect(report.groups[0].fragments.map(fragment => fragment.name).sort()).toEqual(['cartTotal', 'invoiceTotal']);
+  });
+});
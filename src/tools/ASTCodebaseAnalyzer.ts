@@ -1,16 +1,48 @@
-import { Tool, StringToolOutput, ToolEmitter, ToolInput, BaseToolOptions, BaseToolRunOptions } from 'beeai-framework/tools/base';
+import { Tool, ToolEmitter, ToolInput, BaseToolOptions, BaseToolRunOptions } from 'beeai-framework/tools/base';
 import { z } from 'zod';
 import { Emitter } from 'beeai-framework/emitter/emitter';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse as babelParse } from '@babel/parser';
-import traverse, { NodePath } from '@babel/traverse';
+import { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
-import { ChromaClient, Collection } from 'chromadb';
-import { openai } from '@ai-sdk/openai';
-import { generateObject, generateText } from 'ai';
-
-interface ASTCodebaseAnalyzerOptions extends BaseToolOptions {}
+import { ChromaClient } from 'chromadb';
+import { ChatModel } from 'beeai-framework/backend/chat';
+import { EmbeddingModel } from 'beeai-framework/backend/embedding';
+import { UserMessage } from 'beeai-framework/backend/message';
+import { AnalysisConfig, CloneDetectionConfig, DEFAULT_CONFIG, SemanticSearchConfig, VectorStoreConfig } from '../config.js';
+import { ExclusionCount, IgnoreRules } from '../analysis/ignoreRules.js';
+import { BABEL_EXTENSIONS, parseSource, traverse } from '../analysis/babelParser.js';
+import { CloneFragment, CloneGroup, CloneType, detectClones, extractCloneFragments, findCloneMatches, fragmentFromSnippet } from '../analysis/clones.js';
+import { cyclomaticComplexity } from '../analysis/declarations.js';
+import { ModuleResolver } from '../analysis/moduleResolver.js';
+import { SymbolDefinition, SymbolLookup, SymbolReference, SymbolTable } from '../analysis/symbols.js';
+import { getTreeSitterLanguageName, parseDeclarations, TREE_SITTER_EXTENSIONS } from '../analysis/treeSitter.js';
+import { hashContent } from '../analysis/indexCache.js';
+import { embedInBatches } from '../search/embeddings.js';
+import {
+  createChromaClient,
+  dropProjectCollection,
+  listProjectCollections,
+  openProjectCollection,
+  ProjectCollectionInfo,
+  resolveProjectCollection
+} from '../search/chromaCollections.js';
+import { ChromaVectorStore } from '../search/chromaVectorStore.js';
+import { dropLocalCollection, listLocalCollections, LocalVectorStore } from '../search/localVectorStore.js';
+import { VectorMatch, VectorStore } from '../search/vectorStore.js';
+import { Bm25Index } from '../search/bm25.js';
+import { reciprocalRankFusion } from '../search/hybrid.js';
+import { FormattedToolOutput, formatError, formatResult, outputFormatSchema } from './output.js';
+
+interface ASTCodebaseAnalyzerOptions extends BaseToolOptions {
+  llm?: ChatModel;
+  embeddingModel?: EmbeddingModel | null;
+  analysis?: AnalysisConfig;
+  semanticSearch?: SemanticSearchConfig;
+  cloneDetection?: CloneDetectionConfig;
+  vectorStore?: VectorStoreConfig;
+  localStoreDir?: string; // Local vector index, used without ChromaDB; ~/.bee-ai/vectors by default
+}
 
 interface ASTNode {
   type: string;
@@ -41,64 +73,232 @@ interface CodeChunk {
   line: number;
   context: string;
   dependencies: string[];
+  hash?: string; // Content hash of the embedded text, used to reuse stored vectors
   embedding?: number[];
 }
 
+export interface EmbeddingSyncStats {
+  unchanged: number;
+  reused: number;
+  embedded: number;
+  failed: number;
+  removed: number;
+}
+
 interface SemanticSearchResult {
   chunk: CodeChunk;
-  similarity: number;
-  context: string;
+  score: number; // Reciprocal rank fusion score
+  similarity?: number;
+  vectorRank?: number;
+  bm25?: number;
+  lexicalRank?: number;
+  rerankPosition?: number;
+}
+
+// JSON results of the operations (outputFormat: 'json')
+
+/** `analyze_ast` */
+export interface ASTAnalysisOverview {
+  path: string;
+  nodes: number;
+  chunks: number;
+  embeddings: EmbeddingSyncStats | null; // Null without an embedding model
+  vectorStore: { kind: 'chroma' | 'local'; name: string } | null; // Null in in-memory mode
+  parsedFiles: Record<string, number>; // Files per language
+  nodeTypes: Record<string, number>;
+  excluded: ExclusionCount;
+}
+
+export interface SearchHit {
+  name: string;
+  type: CodeChunk['type'];
+  file: string;
+  line: number;
+  content: string;
+  score: number; // Reciprocal rank fusion score
+  similarity?: number; // Cosine similarity, when found by vector search
+  vectorRank?: number;
+  bm25?: number;
+  lexicalRank?: number;
+  rerankPosition?: number;
+}
+
+/** `semantic_search` */
+export interface SemanticSearchResults {
+  query: string;
+  usedVectors: boolean; // False when only BM25 was available
+  hits: SearchHit[];
+  notes: string[];
+}
+
+/** `explain_semantic` and `intelligent_query` */
+export interface SemanticAnswer {
+  query: string;
+  search: SemanticSearchResults;
+  patterns?: CodePatterns; // intelligent_query only
+  answer: string | null; // Null without an LLM or when generation failed
+  error?: string;
+}
+
+export interface CodeLocation {
+  name: string;
+  file: string;
+  startLine: number;
+  endLine: number;
 }
 
-interface VectorDatabase {
-  collection: Collection;
-  isInitialized: boolean;
+/** `find_similar`; snippets that do not parse as code go through semantic search */
+export interface SimilarCodeResult {
+  structural: boolean; // False when the snippet did not parse as code
+  structuralThreshold: number;
+  matches: Array<CodeLocation & { type: CloneType; similarity: number }>;
+  search: SemanticSearchResults | null; // When there are no structural matches
 }
 
-export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnalyzerOptions> {
+/** `find_clones`, at most max_results groups */
+export interface CloneReport {
+  functions: number;
+  totalGroups: number;
+  groupsByType: Record<CloneType, number>;
+  groups: Array<{ type: CloneType; similarity: number; fragments: CodeLocation[] }>;
+}
+
+/** `extract_patterns` */
+export interface CodePatterns {
+  functions: number;
+  classes: number;
+  interfaces: number;
+  imports: number;
+  highComplexity: number;
+  complexityDistribution: Record<string, number>;
+}
+
+/** `dependency_graph`: identifiers each declaration uses */
+export interface DeclarationDependencies {
+  name: string;
+  dependencies: string[];
+}
+
+/** `code_embeddings` */
+export interface EmbeddingReport {
+  chunks: number;
+  embedded: number;
+  coverage: number; // Percentage of chunks with an embedding
+  types: Record<string, number>; // Embedded chunks per type
+}
+
+/** `list_collections` */
+export interface CollectionList {
+  chroma: ProjectCollectionInfo[] | null; // Null when ChromaDB is not available
+  local: ProjectCollectionInfo[];
+  current: string | null;
+}
+
+/** `drop_collection` */
+export interface DroppedCollection {
+  collection: string;
+  droppedFrom: string[];
+}
+
+/** `goto_definition`; usages are looked up when a file and line are given */
+export interface DefinitionResult {
+  symbol: string | null;
+  position: { file: string; line: number } | null;
+  usages: SymbolLookup[];
+  definitions: SymbolDefinition[];
+}
+
+/** `find_references`, at most max_results references per definition */
+export interface ReferencesResult {
+  query: string;
+  definitions: Array<{ definition: SymbolDefinition; total: number; references: SymbolReference[] }>;
+}
+
+export class ASTCodebaseAnalyzer extends Tool<FormattedToolOutput, ASTCodebaseAnalyzerOptions> {
   name = 'ast-codebase-analyzer';
   description = 'Advanced AST-based codebase analysis with semantic search using vector embeddings and ChromaDB';
   
-  readonly emitter: ToolEmitter<ToolInput<this>, StringToolOutput>;
+  readonly emitter: ToolEmitter<ToolInput<this>, FormattedToolOutput>;
   private chromaClient: ChromaClient | null = null;
-  private vectorDB: VectorDatabase | null = null;
+  private chromaAvailable = false;
+  private vectorStore: VectorStore | null = null;
+  private lexicalIndex: Bm25Index | null = null;
   private astNodes: ASTNode[] = [];
   private codeChunks: CodeChunk[] = [];
+  private chunkIds = new Set<string>(); // Ids in codeChunks
+  private cloneFragments: CloneFragment[] = [];
+  private symbolTable: SymbolTable | null = null;
+  private parsedLanguages: Record<string, number> = {}; // Parsed files per language
   private currentPath: string | null = null;
+  private ignoreRules: IgnoreRules | null = null;
+  private syncStats: EmbeddingSyncStats | null = null;
 
   constructor(options?: ASTCodebaseAnalyzerOptions) {
     super(options);
-    this.emitter = new Emitter();
+    this.emitter = Emitter.root.child({
+      namespace: ['tool', 'astCodebaseAnalyzer'],
+      creator: this
+    });
+  }
+
+  private get analysisConfig(): AnalysisConfig {
+    return this.options.analysis ?? DEFAULT_CONFIG.analysis;
+  }
+
+  private get semanticSearchConfig(): SemanticSearchConfig {
+    return this.options.semanticSearch ?? DEFAULT_CONFIG.semanticSearch;
+  }
+
+  private get cloneDetectionConfig(): CloneDetectionConfig {
+    return this.options.cloneDetection ?? DEFAULT_CONFIG.cloneDetection;
+  }
+
+  private get vectorStoreConfig(): VectorStoreConfig {
+    return this.options.vectorStore ?? DEFAULT_CONFIG.vectorStore;
   }
 
   inputSchema() {
     return z.object({
       operation: z.enum([
         'analyze_ast', 'semantic_search', 'explain_semantic', 'find_similar', 
-        'extract_patterns', 'dependency_graph', 'code_embeddings', 'intelligent_query'
+        'extract_patterns', 'dependency_graph', 'code_embeddings', 'intelligent_query',
+        'find_clones', 'list_collections', 'drop_collection', 'goto_definition', 'find_references'
       ]).describe('The AST-based analysis operation to perform'),
       path: z.string().optional().describe('Path to the codebase directory'),
       query: z.string().optional().describe('Semantic search query or question'),
       similarity_threshold: z.number().optional().describe('Similarity threshold for search (0.0-1.0)'),
       max_results: z.number().optional().describe('Maximum number of results to return'),
       code_type: z.enum(['function', 'class', 'interface', 'all']).optional().describe('Type of code to search'),
-      include_context: z.boolean().optional().describe('Include surrounding context in results')
+      include_context: z.boolean().optional().describe('Include surrounding context in results'),
+      rerank: z.boolean().optional().describe('Re-rank search results with the LLM'),
+      collection: z.string().optional().describe('Collection to drop (defaults to the analyzed project\'s collection)'),
+      symbol: z.string().optional().describe('Symbol for goto_definition/find_references, e.g. "parseSource" or "ClassName.method"'),
+      file: z.string().optional().describe('File containing the symbol\'s usage, relative to the analyzed path'),
+      line: z.number().optional().describe('Line of the usage in file (1-based)'),
+      outputFormat: outputFormatSchema
     });
   }
 
   protected async _run(
     input: ToolInput<this>, 
     options: Partial<BaseToolRunOptions>
-  ): Promise<StringToolOutput> {
+  ): Promise<FormattedToolOutput> {
     const { 
       operation, 
       path: targetPath, 
       query, 
-      similarity_threshold = 0.7,
-      max_results = 10,
+      similarity_threshold = this.semanticSearchConfig.similarityThreshold,
+      max_results = this.semanticSearchConfig.maxResults,
       code_type = 'all',
-      include_context = true
+      include_context = true,
+      rerank = this.semanticSearchConfig.rerank,
+      collection,
+      symbol,
+      file,
+      line,
+      outputFormat
     } = input;
+    const fail = (error: string) => formatError(outputFormat, operation, error);
 
     try {
       // Initialize ChromaDB if needed
@@ -106,55 +306,97 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
         await this.initializeVectorDatabase();
       }
 
-      // Analyze codebase if path is provided
-      if (targetPath && (operation === 'analyze_ast' || this.currentPath !== targetPath)) {
+      // Analyze codebase if path is provided; collection management never needs a fresh index
+      const managesCollections = operation === 'list_collections' || operation === 'drop_collection';
+      if (targetPath && !managesCollections && (operation === 'analyze_ast' || this.currentPath !== targetPath)) {
         await this.analyzeCodebaseAST(targetPath);
       }
 
+      if (operation === 'analyze_ast' && !targetPath) {
+        return fail('Path is required for AST analysis');
+      }
+      if (!managesCollections && !this.currentPath) {
+        return fail('No codebase analyzed yet. Provide a path to analyze.');
+      }
+
       switch (operation) {
         case 'analyze_ast':
-          if (!targetPath) {
-            return new StringToolOutput('Error: Path is required for AST analysis');
-          }
-          return new StringToolOutput(await this.formatASTAnalysisResult());
+          return formatResult(outputFormat, operation, this.getOverview(), overview => this.formatOverview(overview));
 
         case 'semantic_search':
           if (!query) {
-            return new StringToolOutput('Error: Query is required for semantic search');
+            return fail('Query is required for semantic search');
           }
-          return new StringToolOutput(await this.performSemanticSearch(
-            query, similarity_threshold, max_results, code_type
-          ));
+          return formatResult(outputFormat, operation, await this.performSemanticSearch(
+            query, similarity_threshold, max_results, code_type, rerank
+          ), results => this.formatSearchResults(results));
 
         case 'explain_semantic':
           if (!query) {
-            return new StringToolOutput('Error: Question is required for semantic explanation');
+            return fail('Question is required for semantic explanation');
           }
-          return new StringToolOutput(await this.explainCodeSemantically(query, include_context));
+          return formatResult(outputFormat, operation, await this.explainCodeSemantically(query, include_context), answer => this.formatAnswer(answer));
 
         case 'find_similar':
           if (!query) {
-            return new StringToolOutput('Error: Code snippet is required to find similar code');
+            return fail('Code snippet is required to find similar code');
           }
-          return new StringToolOutput(await this.findSimilarCode(query, similarity_threshold, max_results));
+          return formatResult(outputFormat, operation, await this.findSimilarCode(
+            query, similarity_threshold, max_results, input.similarity_threshold ?? this.cloneDetectionConfig.similarityThreshold
+          ), result => this.formatSimilarCode(result));
+
+        case 'find_clones':
+          return formatResult(outputFormat, operation, this.findClones(
+            input.similarity_threshold ?? this.cloneDetectionConfig.similarityThreshold, max_results
+          ), report => this.formatClones(report));
 
         case 'extract_patterns':
-          return new StringToolOutput(await this.extractCodePatterns());
+          return formatResult(outputFormat, operation, this.extractCodePatterns(), patterns => this.formatCodePatterns(patterns));
 
         case 'dependency_graph':
-          return new StringToolOutput(await this.generateDependencyGraph());
+          return formatResult(outputFormat, operation, this.generateDependencyGraph(), graph => this.formatDependencyGraph(graph));
 
         case 'code_embeddings':
-          return new StringToolOutput(await this.analyzeCodeEmbeddings());
+          return formatResult(outputFormat, operation, this.analyzeCodeEmbeddings(), report => this.formatEmbeddingReport(report));
 
         case 'intelligent_query':
           if (!query) {
-            return new StringToolOutput('Error: Query is required for intelligent analysis');
+            return fail('Query is required for intelligent analysis');
+          }
+          return formatResult(outputFormat, operation, await this.intelligentCodeQuery(query), answer => this.formatAnswer(answer));
+
+        case 'list_collections':
+          return formatResult(outputFormat, operation, await this.listCollections(), collections => this.formatCollectionList(collections));
+
+        case 'drop_collection': {
+          const target = collection
+            ?? (targetPath ? (await resolveProjectCollection(targetPath, this.vectorStoreConfig.collectionScope)).name : undefined)
+            ?? this.vectorStore?.name;
+          if (!target) {
+            return fail('Collection name or path is required to drop a collection');
+          }
+          const dropped = await this.dropCollection(target);
+          if (dropped.droppedFrom.length === 0) {
+            return fail(`Collection not found: ${target}`);
+          }
+          return formatResult(outputFormat, operation, dropped, ({ collection, droppedFrom }) =>
+            `🗑️ Dropped collection ${collection} (${droppedFrom.join(', ')})`);
+        }
+
+        case 'goto_definition':
+          if (!symbol && !(file && line)) {
+            return fail(`A symbol, or a file and line, is required for ${operation}`);
+          }
+          return formatResult(outputFormat, operation, this.gotoDefinition(symbol, file, line), result => this.formatDefinitionResult(result));
+
+        case 'find_references':
+          if (!symbol && !(file && line)) {
+            return fail(`A symbol, or a file and line, is required for ${operation}`);
           }
-          return new StringToolOutput(await this.intelligentCodeQuery(query));
+          return formatResult(outputFormat, operation, this.findSymbolReferences(symbol, file, line, max_results), result => this.formatReferences(result));
 
         default:
-          return new StringToolOutput(`Error: Unknown operation: ${operation}`);
+          return fail(`Unknown operation: ${operation}`);
       }
     } catch (error) {
       throw this.toError(error as Error, { input, options });
@@ -163,28 +405,32 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
 
   private async initializeVectorDatabase(): Promise<void> {
     try {
-      this.chromaClient = new ChromaClient({
-        path: "http://localhost:8000" // Default ChromaDB server
-      });
-
-      // Create or get collection for code embeddings
-      const collection = await this.chromaClient.getOrCreateCollection({
-        name: "codebase_embeddings",
-        metadata: { "hnsw:space": "cosine" }
-      });
+      this.chromaClient = createChromaClient(this.vectorStoreConfig.chromaUrl);
+      await this.chromaClient.heartbeat();
+      this.chromaAvailable = true;
+    } catch (error) {
+      console.warn('ChromaDB not available, falling back to the local vector index');
+      this.chromaAvailable = false;
+    }
+  }
 
-      this.vectorDB = {
-        collection,
-        isInitialized: true
-      };
+  /**
+   * Opens the collection for a project root, so each project (and, depending on
+   * vectorStore.collectionScope, each branch or commit) keeps its own embeddings.
+   * Without a ChromaDB server the collection lives in a local file instead.
+   */
+  private async openVectorStore(targetPath: string): Promise<VectorStore> {
+    const { name, ref } = await resolveProjectCollection(targetPath, this.vectorStoreConfig.collectionScope);
 
-    } catch (error) {
-      console.warn('ChromaDB not available, falling back to in-memory search');
-      this.vectorDB = {
-        collection: null as any,
-        isInitialized: false
-      };
+    if (this.chromaClient && this.chromaAvailable) {
+      try {
+        return new ChromaVectorStore(await openProjectCollection(this.chromaClient, name, targetPath, ref));
+      } catch (error) {
+        console.warn(`Failed to open ChromaDB collection ${name}, falling back to the local vector index:`, (error as Error).message);
+      }
     }
+
+    return new LocalVectorStore(name, targetPath, ref, this.options.localStoreDir);
   }
 
   private async analyzeCodebaseAST(targetPath: string): Promise<void> {
@@ -200,14 +446,27 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
     this.currentPath = targetPath;
     this.astNodes = [];
     this.codeChunks = [];
+    this.chunkIds.clear();
+    this.cloneFragments = [];
+    this.parsedLanguages = {};
+    this.symbolTable = new SymbolTable(new ModuleResolver(targetPath));
+    this.vectorStore = await this.openVectorStore(targetPath);
+    this.ignoreRules = new IgnoreRules(targetPath, {
+      skipDirs: this.analysisConfig.skipDirs,
+      patterns: this.analysisConfig.ignore
+    });
 
     await this.parseDirectoryAST(targetPath);
-    await this.generateEmbeddings();
-    await this.storeInVectorDatabase();
+    // Names are repeated so a match on the identifier outweighs one in the body
+    this.lexicalIndex = new Bm25Index(this.codeChunks.map(chunk => ({
+      id: chunk.id,
+      text: `${chunk.name} ${chunk.name} ${chunk.content}`
+    })));
+    await this.syncEmbeddings();
   }
 
   private async parseDirectoryAST(dirPath: string, depth: number = 0): Promise<void> {
-    if (depth > 10) return; // Prevent infinite recursion
+    if (depth > this.analysisConfig.maxDepth) return; // Prevent infinite recursion
 
     const entries = fs.readdirSync(dirPath, { withFileTypes: true });
     
@@ -215,11 +474,12 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
       const fullPath = path.join(dirPath, entry.name);
       
       if (entry.isDirectory()) {
-        const skipDirs = ['node_modules', '.git', 'dist', 'build', '.next', 'coverage'];
-        if (skipDirs.includes(entry.name)) continue;
+        if (this.ignoreRules!.check(fullPath, true)) continue;
         
         await this.parseDirectoryAST(fullPath, depth + 1);
       } else if (entry.isFile()) {
+        if (this.ignoreRules!.check(fullPath, false)) continue;
+
         await this.parseFileAST(fullPath);
       }
     }
@@ -227,18 +487,23 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
 
   private async parseFileAST(filePath: string): Promise<void> {
     const ext = path.extname(filePath).toLowerCase();
-    const supportedExtensions = ['.js', '.ts', '.jsx', '.tsx', '.mjs'];
-    
-    if (!supportedExtensions.includes(ext)) return;
+    if (!BABEL_EXTENSIONS.includes(ext) && !TREE_SITTER_EXTENSIONS.includes(ext)) return;
 
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
-      if (content.length > 100000) return; // Skip very large files
+      if (content.length > this.analysisConfig.maxFileChars) {
+        this.ignoreRules?.record('tooLarge'); // Skip very large files
+        return;
+      }
 
       const relativePath = path.relative(this.currentPath!, filePath);
       
-      // Use Babel parser for all files (supports TypeScript)
-      await this.parseJavaScriptAST(content, relativePath);
+      // Babel for JavaScript and TypeScript, tree-sitter grammars for the other languages
+      if (BABEL_EXTENSIONS.includes(ext)) {
+        await this.parseJavaScriptAST(content, relativePath);
+      } else {
+        await this.parseTreeSitterAST(content, relativePath, ext);
+      }
     } catch (error) {
       console.warn(`Failed to parse ${filePath}:`, (error as Error).message);
     }
@@ -247,31 +512,57 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
 
   private async parseJavaScriptAST(content: string, filePath: string): Promise<void> {
     try {
-      const ast = babelParse(content, {
-        sourceType: 'module',
-        allowImportExportEverywhere: true,
-        allowReturnOutsideFunction: true,
-        plugins: [
-          'jsx',
-          'typescript',
-          'decorators-legacy',
-          'classProperties',
-          'objectRestSpread',
-          'functionBind',
-          'exportDefaultFrom',
-          'exportNamespaceFrom',
-          'dynamicImport',
-          'nullishCoalescingOperator',
-          'optionalChaining'
-        ]
-      });
+      const ast = parseSource(content);
 
       this.extractASTNodes(ast, content, filePath, 'babel');
+      this.symbolTable?.addFile(filePath, ast, content);
+      this.parsedLanguages['JavaScript/TypeScript'] = (this.parsedLanguages['JavaScript/TypeScript'] || 0) + 1;
+      const minNodes = this.cloneDetectionConfig.minNodes;
+      this.cloneFragments.push(...extractCloneFragments(ast, filePath).filter(fragment => fragment.size >= minNodes));
     } catch (error) {
       console.warn(`Failed to parse ${filePath} with Babel:`, (error as Error).message);
     }
   }
 
+  private async parseTreeSitterAST(content: string, filePath: string, ext: string): Promise<void> {
+    const language = getTreeSitterLanguageName(ext);
+    const declarations = await parseDeclarations(content, ext);
+    const lines = content.split('\n');
+    this.parsedLanguages[language!] = (this.parsedLanguages[language!] || 0) + 1;
+
+    for (const declaration of declarations) {
+      this.addASTNode({
+        type: declaration.type,
+        name: declaration.name,
+        content: declaration.content,
+        location: {
+          file: filePath,
+          start: declaration.start,
+          end: declaration.end,
+          line: declaration.line
+        },
+        metadata: {
+          parameters: declaration.parameters,
+          returnType: declaration.returnType,
+          complexity: declaration.complexity,
+          dependencies: declaration.type === 'import' ? declaration.dependencies : undefined,
+          scope: declaration.scope,
+          category: declaration.category
+        }
+      });
+
+      this.addCodeChunk({
+        type: declaration.type,
+        name: declaration.name,
+        content: declaration.content,
+        file: filePath,
+        line: declaration.line,
+        context: this.extractContext(lines, declaration.line),
+        dependencies: declaration.dependencies
+      });
+    }
+  }
+
   private extractASTNodes(ast: any, content: string, filePath: string, parser: string): void {
     const lines = content.split('\n');
     
@@ -292,7 +583,7 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
             },
             metadata: {
               parameters: node.params?.map((p: any) => p.name || 'unknown') || [],
-              complexity: this.calculateASTComplexity(path),
+              complexity: cyclomaticComplexity(path),
               scope: this.determineScope(path),
               category: 'declaration'
             }
@@ -334,7 +625,7 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
           },
           metadata: {
             parameters: node.params?.map((p: any) => p.name || 'unknown') || [],
-            complexity: this.calculateASTComplexity(path),
+            complexity: cyclomaticComplexity(path),
             scope: this.determineScope(path),
             category: 'expression'
           }
@@ -489,7 +780,14 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
   }
 
   private addCodeChunk(chunk: Omit<CodeChunk, 'id'>): void {
-    const id = `${chunk.file}:${chunk.line}:${chunk.name}`;
+    // Several declarations can share a line (e.g. `const a = 1, b = a;`), so keep ids unique
+    const baseId = `${chunk.file}:${chunk.line}:${chunk.name}`;
+    let id = baseId;
+    for (let suffix = 2; this.chunkIds.has(id); suffix++) {
+      id = `${baseId}#${suffix}`;
+    }
+    this.chunkIds.add(id);
+
     this.codeChunks.push({
       id,
       ...chunk
@@ -533,27 +831,6 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
     return [...new Set(dependencies)];
   }
 
-  private calculateASTComplexity(path: NodePath): number {
-    let complexity = 1;
-    
-    path.traverse({
-      IfStatement: () => complexity++,
-      WhileStatement: () => complexity++,
-      ForStatement: () => complexity++,
-      SwitchCase: () => complexity++,
-      CatchClause: () => complexity++,
-      ConditionalExpression: () => complexity++,
-      LogicalExpression: (logPath: NodePath) => {
-        const node = logPath.node as any;
-        if (node.operator === '&&' || node.operator === '||') {
-          complexity++;
-        }
-      }
-    });
-
-    return complexity;
-  }
-
   private determineScope(path: NodePath): string {
     if (path.isProgram()) return 'global';
     if (path.isFunctionDeclaration() || path.isArrowFunctionExpression()) return 'function';
@@ -562,38 +839,109 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
     return 'local';
   }
 
-  private async generateEmbeddings(): Promise<void> {
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn('OpenAI API key not found, skipping embedding generation');
+  /**
+   * Brings the vector database in line with the current chunks: vectors of unchanged
+   * chunks are kept, moved chunks (same content, new id) reuse their stored vector,
+   * only new or changed chunks are embedded, and chunks that disappeared are deleted.
+   */
+  private async syncEmbeddings(): Promise<void> {
+    const model = this.options.embeddingModel;
+    this.syncStats = null;
+
+    if (!model) {
+      console.warn('No embedding model configured, skipping embedding generation');
       return;
     }
 
+    const root = path.resolve(this.currentPath!);
     for (const chunk of this.codeChunks) {
-      try {
-        // Create a rich context for embedding
-        const embeddingText = this.createEmbeddingText(chunk);
-        
-        // Generate embedding using OpenAI
-        const response = await fetch('https://api.openai.com/v1/embeddings', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'text-embedding-3-small',
-            input: embeddingText
-          })
-        });
+      // Vectors from different models are not comparable, so the model is part of the hash
+      chunk.hash = hashContent(`${model.providerId}:${model.modelId}\n${this.createEmbeddingText(chunk)}`);
+    }
+
+    const stored = await this.loadStoredEmbeddings();
+    const vectorsByHash = new Map<string, number[]>();
+    for (const entry of stored.values()) {
+      vectorsByHash.set(entry.hash, entry.embedding);
+    }
+
+    const stats: EmbeddingSyncStats = { unchanged: 0, reused: 0, embedded: 0, failed: 0, removed: 0 };
+    const toUpsert: CodeChunk[] = [];
+    const toEmbed: CodeChunk[] = [];
+
+    for (const chunk of this.codeChunks) {
+      const existing = stored.get(chunk.id);
+      if (existing && existing.hash === chunk.hash) {
+        chunk.embedding = existing.embedding;
+        stats.unchanged++;
+      } else if (vectorsByHash.has(chunk.hash!)) {
+        chunk.embedding = vectorsByHash.get(chunk.hash!);
+        toUpsert.push(chunk);
+        stats.reused++;
+      } else {
+        toEmbed.push(chunk);
+      }
+    }
+
+    const embeddings = await embedInBatches(model, toEmbed.map(chunk => this.createEmbeddingText(chunk)), {
+      batchSize: this.semanticSearchConfig.embeddingBatchSize,
+      maxRetries: this.semanticSearchConfig.embeddingMaxRetries,
+      onBatchError: (error, batch) => console.warn(`Failed to generate embeddings for ${batch.length} chunks:`, error.message)
+    });
+
+    toEmbed.forEach((chunk, index) => {
+      const embedding = embeddings[index];
+      if (embedding) {
+        chunk.embedding = embedding;
+        toUpsert.push(chunk);
+        stats.embedded++;
+      } else {
+        stats.failed++;
+      }
+    });
+
+    const currentIds = new Set(this.codeChunks.map(chunk => chunk.id));
+    const staleIds = [...stored.keys()].filter(id => !currentIds.has(id));
+
+    await this.storeInVectorDatabase(root, toUpsert);
+    stats.removed = await this.deleteFromVectorDatabase(staleIds);
+    this.syncStats = stats;
+  }
 
-        if (response.ok) {
-          const data = await response.json() as any;
-          chunk.embedding = data.data[0].embedding;
+  private async loadStoredEmbeddings(): Promise<Map<string, { hash: string; embedding: number[] }>> {
+    const stored = new Map<string, { hash: string; embedding: number[] }>();
+    if (!this.vectorStore) {
+      return stored;
+    }
+
+    try {
+      for (const vector of await this.vectorStore.list()) {
+        const hash = vector.metadata.hash;
+        if (typeof hash === 'string') {
+          stored.set(vector.id, { hash, embedding: vector.embedding });
         }
-      } catch (error) {
-        console.warn(`Failed to generate embedding for ${chunk.id}:`, (error as Error).message);
       }
+    } catch (error) {
+      console.warn(`Failed to read stored embeddings from ${this.vectorStore.name}:`, (error as Error).message);
     }
+
+    return stored;
+  }
+
+  private async embed(values: string[]): Promise<number[][]> {
+    if (!this.options.embeddingModel) {
+      throw new Error('No embedding model configured');
+    }
+
+    const { embeddings } = await this.options.embeddingModel.create({ values });
+    return embeddings;
+  }
+
+  private async generateText(prompt: string): Promise<string> {
+    const response = await this.options.llm!.create({
+      messages: [new UserMessage(prompt)]
+    });
+    return response.getTextContent();
   }
 
   private createEmbeddingText(chunk: CodeChunk): string {
@@ -607,176 +955,208 @@ export class ASTCodebaseAnalyzer extends Tool<StringToolOutput, ASTCodebaseAnaly
     ].join('\n');
   }
 
-  private async storeInVectorDatabase(): Promise<void> {
-    if (!this.vectorDB?.isInitialized || !this.vectorDB.collection) {
+  private async storeInVectorDatabase(root: string, chunks: CodeChunk[]): Promise<void> {
+    if (!this.vectorStore || chunks.length === 0) {
       return;
     }
 
     try {
-      const embeddings = this.codeChunks
-        .filter(chunk => chunk.embedding)
-        .map(chunk => chunk.embedding!);
-      
-      const metadatas = this.codeChunks
-        .filter(chunk => chunk.embedding)
-        .map(chunk => ({
+      await this.vectorStore.upsert(chunks.map(chunk => ({
+        id: chunk.id,
+        embedding: chunk.embedding!,
+        document: this.createEmbeddingText(chunk),
+        metadata: {
           type: chunk.type,
           name: chunk.name,
           file: chunk.file,
           line: chunk.line,
-          dependencies: JSON.stringify(chunk.dependencies)
-        }));
-
-      const documents = this.codeChunks
-        .filter(chunk => chunk.embedding)
-        .map(chunk => this.createEmbeddingText(chunk));
-
-      const ids = this.codeChunks
-        .filter(chunk => chunk.embedding)
-        .map(chunk => chunk.id);
-
-      if (embeddings.length > 0) {
-        await this.vectorDB.collection.add({
-          ids,
-          embeddings,
-          metadatas,
-          documents
-        });
-      }
+          dependencies: JSON.stringify(chunk.dependencies),
+          root,
+          hash: chunk.hash!
+        }
+      })));
+    } catch (error) {
+      console.warn(`Failed to store embeddings in ${this.vectorStore.name}:`, (error as Error).message);
+    }
+  }
+
+  private async deleteFromVectorDatabase(ids: string[]): Promise<number> {
+    if (!this.vectorStore || ids.length === 0) {
+      return 0;
+    }
+
+    try {
+      await this.vectorStore.delete(ids);
+      return ids.length;
     } catch (error) {
-      console.warn('Failed to store embeddings in ChromaDB:', (error as Error).message);
+      console.warn(`Failed to delete stale embeddings from ${this.vectorStore.name}:`, (error as Error).message);
+      return 0;
     }
   }
 
+  /**
+   * Hybrid retrieval: BM25 over chunk names and content and vector similarity
+   * (when embeddings exist) are merged with reciprocal rank fusion, then
+   * optionally re-ranked by the LLM. Vector hits below the threshold are dropped.
+   */
   private async performSemanticSearch(
     query: string, 
     threshold: number, 
     maxResults: number, 
-    codeType: string
-  ): Promise<string> {
-    if (!this.vectorDB?.isInitialized) {
-      return this.performInMemorySearch(query, threshold, maxResults, codeType);
+    codeType: string,
+    rerank: boolean = this.semanticSearchConfig.rerank
+  ): Promise<SemanticSearchResults> {
+    const chunksById = new Map(this.codeChunks.map(chunk => [chunk.id, chunk]));
+    const matchesType = (id: string) => {
+      const chunk = chunksById.get(id);
+      return !!chunk && (codeType === 'all' || chunk.type === codeType);
+    };
+
+    // Fetch more candidates than requested so the two rankings can overlap
+    const candidates = Math.max(maxResults * 4, 20);
+    const lexical = this.lexicalIndex?.search(query, candidates, matchesType) ?? [];
+    const vector = (await this.searchVectors(query, candidates, codeType))
+      .filter(match => match.similarity >= threshold && matchesType(match.id));
+
+    const fused = reciprocalRankFusion([
+      { source: 'vector', ids: vector.map(match => match.id) },
+      { source: 'lexical', ids: lexical.map(match => match.id) }
+    ], this.semanticSearchConfig.rrfK);
+
+    const similarities = new Map(vector.map(match => [match.id, match.similarity]));
+    const bm25Scores = new Map(lexical.map(match => [match.id, match.score]));
+    // Re-ranking gets a wider pool so it can promote results fusion ranked just below the cut
+    const pool = rerank ? Math.min(maxResults * 2, 20) : maxResults;
+
+    let results: SemanticSearchResult[] = fused.slice(0, pool).map(result => ({
+      chunk: chunksById.get(result.id)!,
+      score: result.score,
+      similarity: similarities.get(result.id),
+      vectorRank: result.ranks.vector,
+      bm25: bm25Scores.get(result.id),
+      lexicalRank: result.ranks.lexical
+    }));
+
+    const notes: string[] = [];
+    if (rerank && results.length > 1) {
+      if (this.options.llm) {
+        results = await this.rerankResults(query, results);
+      } else {
+        notes.push('Re-ranking requires an LLM provider; showing fused results.');
+      }
     }
 
-    try {
-      // Generate query embedding
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: query
-        })
-      });
+    return {
+      query,
+      usedVectors: this.hasEmbeddings(),
+      hits: results.slice(0, maxResults).map(({ chunk, ...scores }) => ({
+        name: chunk.name,
+        type: chunk.type,
+        file: chunk.file,
+        line: chunk.line,
+        content: chunk.content,
+        ...scores
+      })),
+      notes
+    };
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to generate query embedding');
-      }
+  private hasEmbeddings(): boolean {
+    return !!this.vectorStore && this.codeChunks.some(chunk => chunk.embedding);
+  }
+
+  private async searchVectors(query: string, limit: number, codeType: string): Promise<VectorMatch[]> {
+    if (!this.hasEmbeddings()) {
+      return [];
+    }
 
-      const data = await response.json() as any;
-      const queryEmbedding = data.data[0].embedding;
+    try {
+      const [queryEmbedding] = await this.embed([query]);
 
-      // Search in ChromaDB
-      const results = await this.vectorDB.collection.query({
-        queryEmbeddings: [queryEmbedding],
-        nResults: maxResults,
+      // Search the current project's collection only
+      return await this.vectorStore!.query(queryEmbedding, {
+        limit,
         where: codeType !== 'all' ? { type: codeType } : undefined
       });
-
-      return this.formatSearchResults(results, threshold);
     } catch (error) {
-      return this.performInMemorySearch(query, threshold, maxResults, codeType);
+      console.warn('Vector search failed, using lexical results only:', (error as Error).message);
+      return [];
     }
   }
 
-  private performInMemorySearch(
-    query: string, 
-    threshold: number, 
-    maxResults: number, 
-    codeType: string
-  ): string {
-    const queryLower = query.toLowerCase();
-    const filtered = this.codeChunks.filter(chunk => {
-      const typeMatch = codeType === 'all' || chunk.type === codeType;
-      const contentMatch = chunk.content.toLowerCase().includes(queryLower) ||
-                          chunk.name.toLowerCase().includes(queryLower) ||
-                          chunk.context.toLowerCase().includes(queryLower);
-      return typeMatch && contentMatch;
-    });
+  private async rerankResults(query: string, results: SemanticSearchResult[]): Promise<SemanticSearchResult[]> {
+    const snippets = results.map((result, index) => [
+      `[${index + 1}] ${result.chunk.name} (${result.chunk.type}) ${result.chunk.file}:${result.chunk.line}`,
+      result.chunk.content.slice(0, 500)
+    ].join('\n'));
 
-    const results = filtered
-      .slice(0, maxResults)
-      .map(chunk => ({
-        chunk,
-        similarity: this.calculateTextSimilarity(query, chunk),
-        context: chunk.context
-      }));
+    try {
+      const response = await this.generateText(`Rank these code snippets by how well they answer the search query "${query}".
+Reply with only a JSON array of snippet numbers, most relevant first, e.g. [3, 1, 2].
 
-    return this.formatInMemorySearchResults(results, threshold);
-  }
+${snippets.join('\n\n')}`);
 
-  private calculateTextSimilarity(query: string, chunk: CodeChunk): number {
-    const queryWords = query.toLowerCase().split(/\s+/);
-    const chunkText = `${chunk.name} ${chunk.content} ${chunk.context}`.toLowerCase();
-    const matches = queryWords.filter(word => chunkText.includes(word)).length;
-    return matches / queryWords.length;
-  }
+      const order = JSON.parse(response.match(/\[[\d\s,]*\]/)?.[0] ?? '[]') as number[];
+      const ranked = [...new Set(order)]
+        .filter(position => Number.isInteger(position) && position >= 1 && position <= results.length)
+        .map(position => results[position - 1]);
+      // Snippets the model left out keep their fused order after the ranked ones
+      const reordered = [...ranked, ...results.filter(result => !ranked.includes(result))];
 
-  private formatSearchResults(results: any, threshold: number): string {
-    const lines = ['🔍 Semantic Search Results:', ''];
-    
-    for (let i = 0; i < results.documents[0].length; i++) {
-      const distance = results.distances[0][i];
-      const similarity = 1 - distance;
-      
-      if (similarity >= threshold) {
-        const metadata = results.metadatas[0][i];
-        lines.push(`📄 ${metadata.name} (${metadata.type})`);
-        lines.push(`   File: ${metadata.file}:${metadata.line}`);
-        lines.push(`   Similarity: ${(similarity * 100).toFixed(1)}%`);
-        lines.push(`   Content: ${results.documents[0][i].slice(0, 200)}...`);
-        lines.push('');
-      }
+      return reordered.map((result, index) => ({ ...result, rerankPosition: index + 1 }));
+    } catch (error) {
+      console.warn('LLM re-ranking failed, keeping fused order:', (error as Error).message);
+      return results;
     }
-
-    return lines.join('\n');
   }
 
-  private formatInMemorySearchResults(results: SemanticSearchResult[], threshold: number): string {
-    const lines = ['🔍 In-Memory Search Results:', ''];
-    
-    for (const result of results) {
-      if (result.similarity >= threshold) {
-        lines.push(`📄 ${result.chunk.name} (${result.chunk.type})`);
-        lines.push(`   File: ${result.chunk.file}:${result.chunk.line}`);
-        lines.push(`   Similarity: ${(result.similarity * 100).toFixed(1)}%`);
-        lines.push(`   Content: ${result.chunk.content.slice(0, 200)}...`);
-        lines.push('');
+  private formatSearchResults({ usedVectors, hits, notes }: SemanticSearchResults): string {
+    const retrievers = usedVectors
+      ? `BM25 + ${this.vectorStore?.kind === 'local' ? 'local index' : 'ChromaDB'}`
+      : 'BM25 only, no embeddings';
+    const lines = [`🔍 Hybrid Search Results (${retrievers}):`, ''];
+
+    if (hits.length === 0) {
+      lines.push('No matching code found.');
+    }
+
+    for (const hit of hits) {
+      const breakdown = [`${hit.score.toFixed(4)} (RRF)`];
+      if (hit.similarity !== undefined) {
+        breakdown.push(`vector ${(hit.similarity * 100).toFixed(1)}% (#${hit.vectorRank})`);
       }
+      if (hit.bm25 !== undefined) {
+        breakdown.push(`BM25 ${hit.bm25.toFixed(2)} (#${hit.lexicalRank})`);
+      }
+      if (hit.rerankPosition !== undefined) {
+        breakdown.push(`rerank #${hit.rerankPosition}`);
+      }
+
+      lines.push(`📄 ${hit.name} (${hit.type})`);
+      lines.push(`   File: ${hit.file}:${hit.line}`);
+      lines.push(`   Score: ${breakdown.join(' · ')}`);
+      lines.push(`   Content: ${hit.content.slice(0, 200)}...`);
+      lines.push('');
     }
 
-    return lines.join('\n');
+    lines.push(...notes.map(note => `💡 ${note}`));
+    return lines.join('\n').trimEnd();
   }
 
-  private async explainCodeSemantically(query: string, includeContext: boolean): Promise<string> {
+  private async explainCodeSemantically(query: string, includeContext: boolean): Promise<SemanticAnswer> {
     // Perform semantic search first
-    const searchResults = await this.performSemanticSearch(query, 0.6, 5, 'all');
+    const search = await this.performSemanticSearch(query, 0.6, 5, 'all');
     
-    if (!process.env.OPENAI_API_KEY) {
-      return `${searchResults}\n\n💡 For detailed explanations, set up OpenAI API key.`;
+    if (!this.options.llm) {
+      return { query, search, answer: null };
     }
 
     try {
       // Use AI to generate explanation
-      const { text } = await generateText({
-        model: openai('gpt-4'),
-        prompt: `Based on the following code search results, provide a detailed explanation for the query: "${query}"
+      const answer = await this.generateText(`Based on the following code search results, provide a detailed explanation for the query: "${query}"
 
 Search Results:
-${searchResults}
+${this.formatSearchResults(search)}
 
 Please provide:
 1. A clear explanation of what the code does
@@ -784,29 +1164,236 @@ Please provide:
 3. Key technical details and patterns
 4. Suggestions for usage or improvement
 
-Keep the explanation technical but accessible.`
-      });
-
-      return text;
+Keep the explanation technical but accessible.`);
+      return { query, search, answer };
     } catch (error) {
-      return `${searchResults}\n\n⚠️ AI explanation failed: ${(error as Error).message}`;
+      return { query, search, answer: null, error: (error as Error).message };
+    }
+  }
+
+  // Falls back to the search results (and patterns) when no answer was generated
+  private formatAnswer({ search, patterns, answer, error }: SemanticAnswer): string {
+    if (answer !== null) {
+      return answer;
+    }
+
+    const sections = [this.formatSearchResults(search)];
+    if (patterns) {
+      sections.push(this.formatCodePatterns(patterns));
+    }
+
+    const purpose = patterns ? 'AI-powered analysis' : 'detailed explanations';
+    sections.push(error
+      ? `⚠️ AI ${patterns ? 'analysis' : 'explanation'} failed: ${error}`
+      : `💡 For ${purpose}, configure an LLM provider.`);
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Code snippets are matched structurally against the analyzed functions;
+   * anything that does not parse as code goes through semantic search.
+   */
+  private async findSimilarCode(
+    codeSnippet: string,
+    threshold: number,
+    maxResults: number,
+    structuralThreshold: number
+  ): Promise<SimilarCodeResult> {
+    const fragment = fragmentFromSnippet(codeSnippet);
+    const matches = fragment ? findCloneMatches(fragment, this.cloneFragments, structuralThreshold, maxResults) : [];
+
+    return {
+      structural: !!fragment,
+      structuralThreshold,
+      matches: matches.map(match => ({ ...this.toCodeLocation(match.fragment), type: match.type, similarity: match.similarity })),
+      search: matches.length === 0 ? await this.performSemanticSearch(codeSnippet, threshold, maxResults, 'all') : null
+    };
+  }
+
+  private formatSimilarCode({ structural, structuralThreshold, matches, search }: SimilarCodeResult): string {
+    if (search) {
+      const searchResults = this.formatSearchResults(search);
+      return structural
+        ? `🧬 No structural clones at ${(structuralThreshold * 100).toFixed(0)}% similarity or above.\n\n${searchResults}`
+        : searchResults;
+    }
+
+    const lines = [`🧬 Structurally Similar Code (${matches.length}):`, ''];
+    for (const match of matches) {
+      lines.push(`📄 ${match.name} · Type-${match.type} · ${(match.similarity * 100).toFixed(1)}%`);
+      lines.push(`   File: ${this.formatLocation(match)}`);
+    }
+    return lines.join('\n');
+  }
+
+  private findClones(threshold: number, maxResults: number): CloneReport {
+    const groups = detectClones(this.cloneFragments, {
+      minNodes: this.cloneDetectionConfig.minNodes,
+      similarityThreshold: threshold
+    });
+
+    const count = (type: CloneType) => groups.filter(group => group.type === type).length;
+    return {
+      functions: this.cloneFragments.length,
+      totalGroups: groups.length,
+      groupsByType: { 1: count(1), 2: count(2), 3: count(3) },
+      groups: groups.slice(0, maxResults).map(group => ({
+        type: group.type,
+        similarity: group.similarity,
+        fragments: group.fragments.map(fragment => this.toCodeLocation(fragment))
+      }))
+    };
+  }
+
+  private formatClones(report: CloneReport): string {
+    const counts = report.groupsByType;
+    const lines = [
+      '🧬 Clone Detection:',
+      '',
+      `📊 ${report.totalGroups} clone groups in ${report.functions} functions ` +
+        `(${counts[1]} Type-1, ${counts[2]} Type-2, ${counts[3]} Type-3)`,
+      ''
+    ];
+
+    for (const group of report.groups) {
+      lines.push(`🔁 ${this.describeCloneType(group.type)} · ${group.fragments.length} copies · ${(group.similarity * 100).toFixed(1)}%`);
+      for (const fragment of group.fragments) {
+        lines.push(`   • ${this.formatLocation(fragment)} ${fragment.name}`);
+      }
+      lines.push('');
+    }
+
+    if (report.totalGroups > report.groups.length) {
+      lines.push(`... and ${report.totalGroups - report.groups.length} more groups`);
+    }
+
+    return lines.join('\n').trimEnd();
+  }
+
+  private describeCloneType(type: CloneGroup['type']): string {
+    switch (type) {
+      case 1: return 'Type-1 (identical)';
+      case 2: return 'Type-2 (renamed identifiers or literals)';
+      case 3: return 'Type-3 (modified copy)';
+    }
+  }
+
+  private toCodeLocation(fragment: CloneFragment): CodeLocation {
+    return { name: fragment.name, file: fragment.file, startLine: fragment.startLine, endLine: fragment.endLine };
+  }
+
+  private formatLocation(location: CodeLocation): string {
+    return `${location.file}:${location.startLine}-${location.endLine}`;
+  }
+
+  private gotoDefinition(symbol?: string, file?: string, line?: number): DefinitionResult {
+    if (file && line) {
+      const usages = this.symbolTable!.lookupAt(this.toProjectPath(file), line, symbol);
+      return {
+        symbol: symbol ?? null,
+        position: { file, line },
+        usages,
+        definitions: [...new Set(usages.map(usage => usage.definition))]
+          .filter((definition): definition is SymbolDefinition => !!definition)
+      };
+    }
+
+    return { symbol: symbol!, position: null, usages: [], definitions: this.symbolTable!.findDefinitions(symbol!) };
+  }
+
+  private formatDefinitionResult({ symbol, position, usages, definitions }: DefinitionResult): string {
+    if (position) {
+      const { file, line } = position;
+      if (usages.length === 0) {
+        return `No ${symbol ? `use of ${symbol}` : 'symbol'} found at ${file}:${line}`;
+      }
+
+      const lines = [`🎯 Definitions for ${file}:${line}:`, ''];
+      for (const { reference, definition, external } of usages) {
+        lines.push(`  ${reference.name} (${reference.file}:${reference.line}:${reference.column})`);
+        if (definition) {
+          lines.push(`    → ${this.formatDefinition(definition)}`);
+          if (definition.text) lines.push(`      ${definition.text}`);
+        } else {
+          lines.push(external ? `    → external package "${external}"` : '    → not declared in the analyzed files');
+        }
+      }
+      return lines.join('\n');
+    }
+
+    if (definitions.length === 0) {
+      return `No definition found for ${symbol}`;
+    }
+
+    const lines = [`🎯 Definition of ${symbol}:`, ''];
+    for (const definition of definitions) {
+      lines.push(`  • ${this.formatDefinition(definition)}`);
+      if (definition.text) lines.push(`    ${definition.text}`);
+    }
+    return lines.join('\n');
+  }
+
+  private findSymbolReferences(symbol: string | undefined, file: string | undefined, line: number | undefined, maxResults: number): ReferencesResult {
+    const { definitions } = this.gotoDefinition(symbol, file, line);
+
+    return {
+      query: symbol ?? `${file}:${line}`,
+      definitions: definitions.map(definition => {
+        const references = this.symbolTable!.findReferences(definition);
+        return { definition, total: references.length, references: references.slice(0, maxResults) };
+      })
+    };
+  }
+
+  private formatReferences({ query, definitions }: ReferencesResult): string {
+    if (definitions.length === 0) {
+      return `No definition found for ${query}`;
+    }
+
+    const lines: string[] = [];
+    for (const { definition, total, references } of definitions) {
+      lines.push(`🔗 References to ${definition.name} (${definition.file}:${definition.line}) · ${total} found`);
+
+      for (const reference of references) {
+        lines.push(`  • ${reference.file}:${reference.line}:${reference.column}${reference.isImport ? ' (import)' : ''}`);
+        lines.push(`    ${reference.text}`);
+      }
+      if (total > references.length) {
+        lines.push(`  ... and ${total - references.length} more`);
+      }
+      lines.push('');
     }
+
+    return lines.join('\n').trimEnd();
   }
 
-  private async findSimilarCode(codeSnippet: string, threshold: number, maxResults: number): Promise<string> {
-    // Similar to semantic search but specifically for code similarity
-    return await this.performSemanticSearch(codeSnippet, threshold, maxResults, 'all');
+  private formatDefinition(definition: SymbolDefinition): string {
+    if (definition.kind === 'module') {
+      return `${definition.file} · module`;
+    }
+    const exported = definition.exported ? ' (exported)' : '';
+    return `${definition.file}:${definition.line}:${definition.column} · ${definition.kind} ${definition.name}${exported}`;
   }
 
-  private async extractCodePatterns(): Promise<string> {
-    const patterns = {
+  // Symbol files are relative to the analyzed path, with forward slashes
+  private toProjectPath(file: string): string {
+    const relative = path.isAbsolute(file) ? path.relative(this.currentPath!, file) : path.normalize(file);
+    return relative.split(path.sep).join('/');
+  }
+
+  private extractCodePatterns(): CodePatterns {
+    return {
       functions: this.astNodes.filter(node => node.type === 'function').length,
       classes: this.astNodes.filter(node => node.type === 'class').length,
       interfaces: this.astNodes.filter(node => node.type === 'interface').length,
       imports: this.astNodes.filter(node => node.type === 'import').length,
-      highComplexity: this.astNodes.filter(node => (node.metadata.complexity || 0) > 10).length
+      highComplexity: this.astNodes.filter(node => (node.metadata.complexity || 0) > 10).length,
+      complexityDistribution: this.getComplexityDistribution()
     };
+  }
 
+  private formatCodePatterns(patterns: CodePatterns): string {
     const lines = [
       '🔍 AST Code Patterns Analysis:',
       '',
@@ -820,9 +1407,8 @@ Keep the explanation technical but accessible.`
     ];
 
     // Add complexity distribution
-    const complexityDistribution = this.getComplexityDistribution();
     lines.push('📈 Complexity Distribution:');
-    for (const [range, count] of Object.entries(complexityDistribution)) {
+    for (const [range, count] of Object.entries(patterns.complexityDistribution)) {
       lines.push(`  • ${range}: ${count} functions`);
     }
 
@@ -848,7 +1434,7 @@ Keep the explanation technical but accessible.`
     return distribution;
   }
 
-  private async generateDependencyGraph(): Promise<string> {
+  private generateDependencyGraph(): DeclarationDependencies[] {
     const dependencyMap = new Map<string, Set<string>>();
     
     for (const node of this.astNodes) {
@@ -856,70 +1442,81 @@ Keep the explanation technical but accessible.`
       dependencyMap.set(node.name || 'unknown', new Set(deps));
     }
 
+    return [...dependencyMap]
+      .filter(([, deps]) => deps.size > 0)
+      .map(([name, deps]) => ({ name, dependencies: [...deps] }));
+  }
+
+  private formatDependencyGraph(graph: DeclarationDependencies[]): string {
     const lines = ['🕸️ Dependency Graph:', ''];
     
-    for (const [name, deps] of dependencyMap) {
-      if (deps.size > 0) {
-        lines.push(`📦 ${name}:`);
-        for (const dep of Array.from(deps).slice(0, 10)) {
-          lines.push(`  ├─ ${dep}`);
-        }
-        if (deps.size > 10) {
-          lines.push(`  └─ ... and ${deps.size - 10} more`);
-        }
-        lines.push('');
+    for (const { name, dependencies } of graph) {
+      lines.push(`📦 ${name}:`);
+      for (const dep of dependencies.slice(0, 10)) {
+        lines.push(`  ├─ ${dep}`);
+      }
+      if (dependencies.length > 10) {
+        lines.push(`  └─ ... and ${dependencies.length - 10} more`);
       }
+      lines.push('');
     }
 
     return lines.join('\n');
   }
 
-  private async analyzeCodeEmbeddings(): Promise<string> {
+  private analyzeCodeEmbeddings(): EmbeddingReport {
     const embeddedChunks = this.codeChunks.filter(chunk => chunk.embedding);
-    
+
+    // Type distribution
+    const types: Record<string, number> = {};
+    for (const chunk of embeddedChunks) {
+      types[chunk.type] = (types[chunk.type] || 0) + 1;
+    }
+
+    return {
+      chunks: this.codeChunks.length,
+      embedded: embeddedChunks.length,
+      coverage: this.codeChunks.length > 0 ? (embeddedChunks.length / this.codeChunks.length) * 100 : 0,
+      types
+    };
+  }
+
+  private formatEmbeddingReport(report: EmbeddingReport): string {
     const lines = [
       '🧮 Code Embeddings Analysis:',
       '',
       `📊 Embedding Statistics:`,
-      `  • Total Code Chunks: ${this.codeChunks.length}`,
-      `  • Embedded Chunks: ${embeddedChunks.length}`,
-      `  • Embedding Coverage: ${((embeddedChunks.length / this.codeChunks.length) * 100).toFixed(1)}%`,
+      `  • Total Code Chunks: ${report.chunks}`,
+      `  • Embedded Chunks: ${report.embedded}`,
+      `  • Embedding Coverage: ${report.coverage.toFixed(1)}%`,
       ''
     ];
 
-    // Type distribution
-    const typeDistribution: Record<string, number> = {};
-    for (const chunk of embeddedChunks) {
-      typeDistribution[chunk.type] = (typeDistribution[chunk.type] || 0) + 1;
-    }
-
     lines.push('📈 Embedded Code Types:');
-    for (const [type, count] of Object.entries(typeDistribution)) {
+    for (const [type, count] of Object.entries(report.types)) {
       lines.push(`  • ${type}: ${count} chunks`);
     }
 
     return lines.join('\n');
   }
 
-  private async intelligentCodeQuery(query: string): Promise<string> {
+  private async intelligentCodeQuery(query: string): Promise<SemanticAnswer> {
     // Combine semantic search with AI-powered analysis
-    const searchResults = await this.performSemanticSearch(query, 0.5, 10, 'all');
-    const patterns = await this.extractCodePatterns();
+    const search = await this.performSemanticSearch(query, 0.5, 10, 'all');
+    const patterns = this.extractCodePatterns();
     
-    if (!process.env.OPENAI_API_KEY) {
-      return `${searchResults}\n\n${patterns}\n\n💡 For AI-powered analysis, set up OpenAI API key.`;
+    if (!this.options.llm) {
+      return { query, search, patterns, answer: null };
     }
 
     try {
-      const { text } = await generateText({
-        model: openai('gpt-4'),
-        prompt: `You are an expert code analyst. Based on the following AST analysis and search results, provide an intelligent answer to the query: "${query}"
+      const answer = await this.generateText(`You are an expert code analyst. Based on the following AST analysis and search results, provide an intelligent answer to the query: "${query}"
 
 Search Results:
-${searchResults}
+${this.formatSearchResults(search)}
 
 Code Patterns:
-${patterns}
+${this.formatCodePatterns(patterns)}
 
 AST Nodes Available: ${this.astNodes.length}
 Code Chunks Available: ${this.codeChunks.length}
@@ -931,38 +1528,144 @@ Please provide:
 4. Best practices recommendations
 5. Potential improvements
 
-Be specific and technical, referencing actual code from the results.`
-      });
-
-      return text;
+Be specific and technical, referencing actual code from the results.`);
+      return { query, search, patterns, answer };
     } catch (error) {
-      return `${searchResults}\n\n${patterns}\n\n⚠️ AI analysis failed: ${(error as Error).message}`;
+      return { query, search, patterns, answer: null, error: (error as Error).message };
+    }
+  }
+
+  private async listCollections(): Promise<CollectionList> {
+    return {
+      chroma: this.chromaClient && this.chromaAvailable ? await listProjectCollections(this.chromaClient) : null,
+      local: listLocalCollections(this.options.localStoreDir),
+      current: this.vectorStore?.name ?? null
+    };
+  }
+
+  private formatCollectionList({ chroma, local }: CollectionList): string {
+    const lines: string[] = [];
+
+    if (chroma) {
+      lines.push(...this.formatCollections('ChromaDB', chroma));
+    } else {
+      lines.push(`⚠️ ChromaDB is not available at ${this.vectorStoreConfig.chromaUrl}`, '');
+    }
+    lines.push(...this.formatCollections('Local', local));
+
+    return lines.join('\n').trimEnd();
+  }
+
+  private formatCollections(label: string, collections: ProjectCollectionInfo[]): string[] {
+    if (collections.length === 0) {
+      return [`🗂️ No ${label} collections found`, ''];
+    }
+
+    const lines = [`🗂️ ${label} Collections (${collections.length}):`, ''];
+    for (const collection of collections) {
+      const current = collection.name === this.vectorStore?.name ? ' (current)' : '';
+      lines.push(`📦 ${collection.name}${current}`);
+      lines.push(`   Root: ${collection.root}${collection.ref ? ` @ ${collection.ref}` : ''}`);
+      lines.push(`   Chunks: ${collection.chunks}`);
+    }
+    lines.push('');
+
+    return lines;
+  }
+
+  private async dropCollection(target: string): Promise<DroppedCollection> {
+    const droppedFrom: string[] = [];
+    if (this.chromaClient && this.chromaAvailable && await dropProjectCollection(this.chromaClient, target)) {
+      droppedFrom.push('ChromaDB');
+    }
+    if (dropLocalCollection(target, this.options.localStoreDir)) {
+      droppedFrom.push('local index');
+    }
+
+    // The analyzed project lost its embeddings; re-analyze it on next use
+    if (droppedFrom.length > 0 && target === this.vectorStore?.name) {
+      this.vectorStore = null;
+      this.lexicalIndex = null;
+      this.currentPath = null;
+      this.codeChunks = [];
+      this.chunkIds.clear();
+      this.cloneFragments = [];
+      this.symbolTable = null;
+      this.astNodes = [];
+    }
+
+    return { collection: target, droppedFrom };
+  }
+
+  private formatSyncStats(stats: EmbeddingSyncStats | null): string {
+    if (!stats) {
+      return 'none (no embedding model configured)';
+    }
+
+    const { unchanged, reused, embedded, failed, removed } = stats;
+    const parts = [`${embedded} generated`, `${unchanged} unchanged`, `${reused} reused`, `${removed} removed`];
+    if (failed > 0) {
+      parts.push(`${failed} failed`);
+    }
+    return parts.join(', ');
+  }
+
+  private formatVectorStoreStatus(vectorStore: ASTAnalysisOverview['vectorStore']): string {
+    if (!vectorStore) {
+      return 'In-Memory Mode';
+    }
+    return vectorStore.kind === 'chroma'
+      ? `Connected (${vectorStore.name})`
+      : `Local Index (${vectorStore.name})`;
+  }
+
+  private getOverview(): ASTAnalysisOverview {
+    // Node type distribution
+    const nodeTypes: Record<string, number> = {};
+    for (const node of this.astNodes) {
+      nodeTypes[node.type] = (nodeTypes[node.type] || 0) + 1;
     }
+
+    return {
+      path: this.currentPath!,
+      nodes: this.astNodes.length,
+      chunks: this.codeChunks.length,
+      embeddings: this.syncStats,
+      vectorStore: this.vectorStore ? { kind: this.vectorStore.kind, name: this.vectorStore.name } : null,
+      parsedFiles: this.parsedLanguages,
+      nodeTypes,
+      excluded: this.ignoreRules?.getTotalExcluded() ?? { files: 0, directories: 0 }
+    };
   }
 
-  private async formatASTAnalysisResult(): Promise<string> {
+  private formatOverview(overview: ASTAnalysisOverview): string {
     const lines = [
       '🌳 AST-Based Codebase Analysis Complete',
       '',
-      `📍 Path: ${this.currentPath}`,
-      `🔍 AST Nodes Extracted: ${this.astNodes.length}`,
-      `📦 Code Chunks Created: ${this.codeChunks.length}`,
-      `🧮 Embeddings Generated: ${this.codeChunks.filter(c => c.embedding).length}`,
-      `💾 Vector DB Status: ${this.vectorDB?.isInitialized ? 'Connected' : 'In-Memory Mode'}`,
+      `📍 Path: ${overview.path}`,
+      `🔍 AST Nodes Extracted: ${overview.nodes}`,
+      `📦 Code Chunks Created: ${overview.chunks}`,
+      `🧮 Embeddings: ${this.formatSyncStats(overview.embeddings)}`,
+      `💾 Vector DB Status: ${this.formatVectorStoreStatus(overview.vectorStore)}`,
       ''
     ];
 
-    // Node type distribution
-    const nodeTypes: Record<string, number> = {};
-    for (const node of this.astNodes) {
-      nodeTypes[node.type] = (nodeTypes[node.type] || 0) + 1;
+    lines.push('🗣️ Parsed Files:');
+    for (const [language, count] of Object.entries(overview.parsedFiles)) {
+      lines.push(`  • ${language}: ${count} files`);
     }
 
-    lines.push('📊 AST Node Distribution:');
-    for (const [type, count] of Object.entries(nodeTypes)) {
+    lines.push('', '📊 AST Node Distribution:');
+    for (const [type, count] of Object.entries(overview.nodeTypes)) {
       lines.push(`  • ${type}: ${count} nodes`);
     }
 
+    const { excluded } = overview;
+    if (excluded.files > 0 || excluded.directories > 0) {
+      lines.push('', `🚫 Excluded: ${excluded.files} files, ${excluded.directories} directories`);
+      lines.push(...this.ignoreRules!.formatExclusions());
+    }
+
     lines.push('', '🚀 Available Operations:');
     lines.push('  • semantic_search - Find code by semantic meaning');
     lines.push('  • explain_semantic - Get AI-powered code explanations');
@@ -970,7 +1673,12 @@ Be specific and technical, referencing actual code from the results.`
     lines.push('  • extract_patterns - Analyze code patterns and complexity');
     lines.push('  • dependency_graph - Visualize code dependencies');
     lines.push('  • intelligent_query - AI-powered code analysis');
+    lines.push('  • code_embeddings - Inspect the stored embeddings');
+    lines.push('  • find_clones - Find duplicated and near-duplicate functions');
+    lines.push('  • goto_definition - Jump from a symbol or usage to its declaration');
+    lines.push('  • find_references - List every usage of a symbol');
+    lines.push('  • list_collections / drop_collection - Manage stored vector collections');
 
     return lines.join('\n');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodebaseAnalyzer, CodebaseOverview, ComplexityReport, DeclarationSearchResult, DependencyReport } from './CodebaseAnalyzer.js';
+import { DEFAULT_CONFIG } from '../config.js';
+import { ToolRunner, createTempDir, writeFile } from '../test/helpers.js';
+
+let project: string;
+
+function write(file: string, content: string): void {
+  writeFile(project, file, content);
+}
+
+function createAnalyzer(): ToolRunner<CodebaseAnalyzer> {
+  return new ToolRunner(new CodebaseAnalyzer({
+    analysis: { ...DEFAULT_CONFIG.analysis, cache: false },
+    cloneDetection: DEFAULT_CONFIG.cloneDetection,
+    architecture: { rules: [{ from: 'ui/', disallow: ['db/'] }] }
+  }));
+}
+
+beforeAll(() => {
+  project = createTempDir('codebase');
+  write('db/orders.ts', [
+    "import { formatTotal } from '../ui/view.js';",
+    '',
+    'export function loadOrders(): number[] {',
+    '  return [1, 2, 3];',
+    '}',
+    '',
+    'export function orderTotal(): string {',
+    '  return formatTotal(loadOrders().length);',
+    '}'
+  ].join('\n'));
+  write('ui/view.ts', [
+    "import { orderTotal } from '../db/orders.js';",
+    '',
+    'export function formatTotal(total: number): string {',
+    '  return `Total: ${total}`;',
+    '}',
+    '',
+    'export class OrderView {',
+    '  render(): string {',
+    '    return orderTotal();',
+    '  }',
+    '}'
+  ].join('\n'));
+  write('node_modules/dep/index.js', 'module.exports = 1;');
+});
+
+afterAll(() => {
+  fs.rmSync(project, { recursive: true, force: true });
+});
+
+describe('CodebaseAnalyzer', () => {
+  it('fails until a codebase has been analyzed', async () => {
+    expect(await createAnalyzer().run({ operation: 'stats' })).toEqual({
+      operation: 'stats',
+      error: expect.stringContaining('No codebase has been analyzed yet')
+    });
+  });
+
+  it('indexes the source files and skips dependency directories', async () => {
+    const overview = await createAnalyzer().result<CodebaseOverview>({ operation: 'analyze', path: project });
+
+    expect(overview.totalFiles).toBe(2);
+    expect(overview.cache).toBeNull();
+  });
+
+  it('finds function declarations', async () => {
+    const analyzer = createAnalyzer();
+    await analyzer.result({ operation: 'analyze', path: project });
+
+    const search = await analyzer.result<DeclarationSearchResult>({ operation: 'find_function', functionName: 'formatTotal' });
+    expect(search.matches.map(match => [match.file, match.line])).toEqual([[path.join('ui', 'view.ts'), 3]]);
+  });
+
+  it('reports import cycles and layering violations', async () => {
+    const analyzer = createAnalyzer();
+    await analyzer.result({ operation: 'analyze', path: project });
+
+    const report = await analyzer.result<DependencyReport>({ operation: 'dependencies' });
+    expect(report.cycles).toHaveLength(1);
+    expect([...report.cycles[0]].sort()).toEqual(['db/orders.ts', 'ui/view.ts']);
+    expect(report.violations).toEqual([
+      expect.objectContaining({ from: 'ui/view.ts', to: 'db/orders.ts', line: 1 })
+    ]);
+  });
+
+  it('reads declarations from files with recoverable syntax errors', async () => {
+    const broken = createTempDir('codebase-broken');
+    writeFile(broken, 'cart.ts', [
+      'export class Cart {',
+      '  total(prices: number[]): number {',
+      '    let sum = 0;',
+      '    for (const price of prices) {',
+      '      if (price > 0) sum += price;',
+      '    }',
+      '    return sum;',
+      '  }',
+      '}',
+      'let sum = 1;',
+      'let sum = 2;'
+    ].join('\n'));
+
+    try {
+      const analyzer = createAnalyzer();
+      await analyzer.result({ operation: 'analyze', path: broken });
+
+      const report = await analyzer.result<ComplexityReport>({ operation: 'complexity' });
+      expect(report.mostComplex).toEqual([expect.objectContaining({ name: 'Cart.total', line: 2, complexity: 3 })]);
+    } finally {
+      fs.rmSync(broken, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,10 +1,30 @@
-import { Tool, StringToolOutput, ToolEmitter, ToolInput, BaseToolOptions, BaseToolRunOptions } from 'beeai-framework/tools/base';
+import { Tool, ToolEmitter, ToolInput, BaseToolOptions, BaseToolRunOptions } from 'beeai-framework/tools/base';
 import { z } from 'zod';
 import { Emitter } from 'beeai-framework/emitter/emitter';
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface CodebaseAnalyzerOptions extends BaseToolOptions {}
+import { AnalysisConfig, ArchitectureConfig, CloneDetectionConfig, DEFAULT_CONFIG } from '../config.js';
+import { ExclusionCount, IgnoreRules } from '../analysis/ignoreRules.js';
+import { IndexCache, IndexCacheStats } from '../analysis/indexCache.js';
+import { BABEL_EXTENSIONS, parseSource } from '../analysis/babelParser.js';
+import { CloneFragment, detectClones, extractCloneFragments } from '../analysis/clones.js';
+import { ClassInfo, FunctionInfo, extractDeclarations } from '../analysis/declarations.js';
+import { ModuleResolver } from '../analysis/moduleResolver.js';
+import { SymbolTable } from '../analysis/symbols.js';
+import { CallGraph, buildCallGraph } from '../analysis/callGraph.js';
+import { GraphFormat, shortestCycle, toDot, toMermaid } from '../analysis/graph.js';
+import { LayerViolation, ModuleGraph, ModuleImport, buildModuleGraph, checkLayerRules, extractModuleImports } from '../analysis/moduleGraph.js';
+import { FormattedToolOutput, formatError, formatResult, outputFormatSchema } from './output.js';
+import * as t from '@babel/types';
+
+// Bump when the per-file analysis changes so stale cache entries are discarded
+const INDEX_CACHE_VERSION = 4;
+
+interface CodebaseAnalyzerOptions extends BaseToolOptions {
+  analysis?: AnalysisConfig;
+  cloneDetection?: CloneDetectionConfig;
+  architecture?: ArchitectureConfig;
+}
 
 interface FileInfo {
   path: string;
@@ -14,42 +34,46 @@ interface FileInfo {
   size: number;
 }
 
-interface ArchitecturalPattern {
+export interface ArchitecturalPattern {
   name: string;
   confidence: number;
   evidence: string[];
   description: string;
 }
 
-interface DesignPattern {
+export interface DesignPattern {
   name: string;
   location: string;
   confidence: number;
   description: string;
 }
 
-interface CodeQuality {
+export interface CodeQuality {
   complexity: number;
   maintainabilityScore: number;
   codeSmells: string[];
   recommendations: string[];
 }
 
-interface FunctionInfo {
-  name: string;
-  location: string;
-  complexity: number;
-  parameters: string[];
-  returnType?: string;
+export interface FileEntry {
+  type: 'file';
+  extension: string;
+  lines: number;
+  size: number;
 }
 
-interface ClassInfo {
-  name: string;
-  location: string;
-  methods: string[];
-  properties: string[];
-  extends?: string;
-  implements?: string[];
+// Nested by path segment, e.g. { src: { 'index.ts': FileEntry } }
+export interface DirectoryTree {
+  [name: string]: DirectoryTree | FileEntry;
+}
+
+// Everything derived from a single file; cached between runs
+interface FileAnalysis {
+  functions: FunctionInfo[];
+  classes: ClassInfo[];
+  designPatterns: DesignPattern[];
+  imports: ModuleImport[];
+  clones: CloneFragment[];
 }
 
 interface CodebaseIndex {
@@ -57,7 +81,7 @@ interface CodebaseIndex {
   totalFiles: number;
   totalLines: number;
   languages: Record<string, number>;
-  structure: any;
+  structure: DirectoryTree;
   architecturalPatterns: ArchitecturalPattern[];
   designPatterns: DesignPattern[];
   codeQuality: CodeQuality;
@@ -66,17 +90,140 @@ interface CodebaseIndex {
   crossReferences: Record<string, string[]>;
 }
 
-export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOptions> {
+// JSON results of the operations (outputFormat: 'json')
+
+/** `analyze` */
+export interface CodebaseOverview {
+  path: string;
+  totalFiles: number;
+  totalLines: number;
+  languages: Record<string, number>; // Files per language
+  excluded: ExclusionCount;
+  cache: IndexCacheStats | null; // Null when the index cache is disabled
+}
+
+export interface SourceLine {
+  file: string;
+  line: number;
+  content: string; // Trimmed
+}
+
+/** `search`, at most 5 matching lines per file */
+export interface TextSearchResult {
+  query: string;
+  files: Array<{ file: string; matches: SourceLine[] }>;
+}
+
+/** `explain` */
+export interface CodebaseExplanation {
+  question: string;
+  context: {
+    files: number;
+    lines: number;
+    languages: string[];
+    functions: number;
+    classes: number;
+    architecturalPatterns: number;
+    designPatterns: number;
+  };
+  insights: string[];
+  recommendations: string[];
+}
+
+/** `stats` */
+export interface CodebaseStats {
+  totalFiles: number;
+  totalLines: number;
+  languages: Array<{ language: string; files: number; percentage: number }>;
+  totalSize: number; // Bytes
+  averageFileSize: number;
+}
+
+/** `find_function` and `find_class` */
+export interface DeclarationSearchResult {
+  name: string;
+  matches: SourceLine[];
+}
+
+/** `dependencies` */
+export interface DependencyReport extends ModuleGraph {
+  violations: LayerViolation[];
+}
+
+export interface FileSummary {
+  path: string;
+  language: string;
+  lines: number;
+  size: number; // Bytes
+}
+
+/** `content` */
+export interface FileContent extends FileSummary {
+  content: string;
+}
+
+/** `summary` */
+export interface CodebaseSummary {
+  project: string;
+  totalFiles: number;
+  totalLines: number;
+  primaryLanguage: { language: string; files: number };
+  languages: string[];
+}
+
+/** `complexity`, with the 10 most complex functions */
+export interface ComplexityReport {
+  totalFunctions: number;
+  averageComplexity: number;
+  mostComplex: Array<{ name: string; file: string; line: number; complexity: number }>;
+}
+
+/** `functionality` */
+export interface FunctionalityReport {
+  functions: number;
+  classes: number;
+  categories: Record<string, number>; // Functions per category, guessed from their names
+  hierarchies: string[]; // e.g. "Dog extends Animal"
+}
+
+/** `cross_references`, files with the most imports first */
+export interface CrossReference {
+  file: string;
+  imports: string[];
+}
+
+export class CodebaseAnalyzer extends Tool<FormattedToolOutput, CodebaseAnalyzerOptions> {
   name = 'codebase-analyzer';
   description = 'Analyze and understand codebases - read files, extract structure, answer questions about code';
   
-  readonly emitter: ToolEmitter<ToolInput<this>, StringToolOutput>;
+  readonly emitter: ToolEmitter<ToolInput<this>, FormattedToolOutput>;
   private codebaseIndex: CodebaseIndex | null = null;
   private currentPath: string | null = null;
+  private ignoreRules: IgnoreRules | null = null;
+  private indexCache: IndexCache<FileAnalysis> | null = null;
+  private fileAnalyses = new Map<string, FileAnalysis>();
+  private moduleResolver: ModuleResolver | null = null;
+  private symbolTable: SymbolTable | null = null; // Built on first use from the indexed files
+  private moduleGraph: ModuleGraph | null = null; // Built on first use from the per-file imports
 
   constructor(options?: CodebaseAnalyzerOptions) {
     super(options);
-    this.emitter = new Emitter();
+    this.emitter = Emitter.root.child({
+      namespace: ['tool', 'codebaseAnalyzer'],
+      creator: this
+    });
+  }
+
+  private get analysisConfig(): AnalysisConfig {
+    return this.options.analysis ?? DEFAULT_CONFIG.analysis;
+  }
+
+  private get cloneDetectionConfig(): CloneDetectionConfig {
+    return this.options.cloneDetection ?? DEFAULT_CONFIG.cloneDetection;
+  }
+
+  private get architectureConfig(): ArchitectureConfig {
+    return this.options.architecture ?? DEFAULT_CONFIG.architecture;
   }
 
   inputSchema() {
@@ -90,19 +237,22 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
       path: z.string().optional().describe('Path to the codebase directory'),
       query: z.string().optional().describe('Search query or question about the codebase'),
       fileName: z.string().optional().describe('Specific file name to analyze'),
-      functionName: z.string().optional().describe('Function name to find'),
+      functionName: z.string().optional().describe('Function name to find, or the root of the call graph (e.g. "main" or "ClassName.method")'),
       className: z.string().optional().describe('Class name to find'),
       language: z.string().optional().describe('Filter by programming language'),
       includeExtensions: z.array(z.string()).optional().describe('File extensions to include (e.g., [".js", ".ts"])'),
       excludeExtensions: z.array(z.string()).optional().describe('File extensions to exclude'),
-      maxDepth: z.number().optional().describe('Maximum directory depth to analyze (default: 10)')
+      maxDepth: z.number().optional().describe('Maximum directory depth to analyze (default: analysis.maxDepth from config)'),
+      depth: z.number().optional().describe('Maximum call depth from the call graph root (default: 3)'),
+      graphFormat: z.enum(['text', 'dot', 'mermaid', 'json']).optional().describe('Call graph and dependency graph output: text, Graphviz DOT, Mermaid or JSON'),
+      outputFormat: outputFormatSchema
     });
   }
 
   protected async _run(
     input: ToolInput<this>, 
     options: Partial<BaseToolRunOptions>
-  ): Promise<StringToolOutput> {
+  ): Promise<FormattedToolOutput> {
     const { 
       operation, 
       path: targetPath, 
@@ -113,8 +263,10 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
       language,
       includeExtensions,
       excludeExtensions,
-      maxDepth = 10
+      maxDepth = this.analysisConfig.maxDepth,
+      outputFormat
     } = input;
+    const fail = (error: string) => formatError(outputFormat, operation, error);
 
     try {
       // If path is provided, analyze the codebase
@@ -122,81 +274,95 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
         await this.analyzeCodebase(targetPath, { includeExtensions, excludeExtensions, maxDepth });
       }
 
+      if (operation === 'analyze' && !targetPath) {
+        return fail('Path is required for analyze operation');
+      }
+      if (!this.codebaseIndex) {
+        return fail('No codebase has been analyzed yet. Provide a path or run the analyze operation first.');
+      }
+
       switch (operation) {
         case 'analyze':
-          if (!targetPath) {
-            return new StringToolOutput('Error: Path is required for analyze operation');
-          }
-          return new StringToolOutput(this.formatAnalysisResult());
+          return formatResult(outputFormat, operation, this.getOverview(), overview => this.formatOverview(overview));
 
         case 'search':
           if (!query) {
-            return new StringToolOutput('Error: Search query is required');
+            return fail('Search query is required');
           }
-          return new StringToolOutput(await this.searchCodebase(query));
+          return formatResult(outputFormat, operation, this.searchCodebase(query), result => this.formatSearchResult(result));
 
         case 'explain':
           if (!query) {
-            return new StringToolOutput('Error: Question is required for explain operation');
+            return fail('Question is required for explain operation');
           }
-          return new StringToolOutput(await this.explainCodebase(query));
+          return formatResult(outputFormat, operation, this.explainCodebase(query), explanation => this.formatExplanation(explanation));
 
         case 'structure':
-          return new StringToolOutput(this.getCodebaseStructure());
+          return formatResult(outputFormat, operation, this.codebaseIndex.structure, structure => this.formatStructure(structure));
 
         case 'stats':
-          return new StringToolOutput(this.getCodebaseStats());
+          return formatResult(outputFormat, operation, this.getCodebaseStats(), stats => this.formatStats(stats));
 
         case 'find_function':
           if (!functionName) {
-            return new StringToolOutput('Error: Function name is required');
+            return fail('Function name is required');
           }
-          return new StringToolOutput(this.findFunction(functionName));
+          return formatResult(outputFormat, operation, this.findFunction(functionName), result => this.formatDeclarationSearch('Function', result));
 
         case 'find_class':
           if (!className) {
-            return new StringToolOutput('Error: Class name is required');
+            return fail('Class name is required');
           }
-          return new StringToolOutput(this.findClass(className));
+          return formatResult(outputFormat, operation, this.findClass(className), result => this.formatDeclarationSearch('Class', result));
 
         case 'dependencies':
-          return new StringToolOutput(this.analyzeDependencies());
+          return formatResult(outputFormat, operation, this.analyzeDependencies(), report => this.formatDependencies(report, input.graphFormat));
 
         case 'files':
-          return new StringToolOutput(this.listFiles(language));
+          return formatResult(outputFormat, operation, this.listFiles(language), files => this.formatFileList(files, language));
 
-        case 'content':
+        case 'content': {
           if (!fileName) {
-            return new StringToolOutput('Error: File name is required');
+            return fail('File name is required');
           }
-          return new StringToolOutput(this.getFileContent(fileName));
+          const file = this.getFileContent(fileName);
+          if (!file) {
+            return fail(`File "${fileName}" not found in the analyzed codebase.`);
+          }
+          return formatResult(outputFormat, operation, file, content => this.formatFileContent(content));
+        }
 
         case 'summary':
-          return new StringToolOutput(this.getCodebaseSummary());
+          return formatResult(outputFormat, operation, this.getCodebaseSummary(), summary => this.formatSummary(summary));
 
         case 'architecture':
-          return new StringToolOutput(this.analyzeArchitecture());
+          return formatResult(outputFormat, operation, this.codebaseIndex.architecturalPatterns, patterns => this.formatArchitecture(patterns));
 
         case 'design_patterns':
-          return new StringToolOutput(this.analyzeDesignPatterns());
+          return formatResult(outputFormat, operation, this.codebaseIndex.designPatterns, patterns => this.formatDesignPatterns(patterns));
 
         case 'code_quality':
-          return new StringToolOutput(this.analyzeCodeQuality());
+          return formatResult(outputFormat, operation, this.codebaseIndex.codeQuality, quality => this.formatCodeQuality(quality));
 
         case 'complexity':
-          return new StringToolOutput(this.analyzeComplexity());
+          return formatResult(outputFormat, operation, this.analyzeComplexity(), report => this.formatComplexity(report));
 
         case 'functionality':
-          return new StringToolOutput(this.analyzeFunctionality());
+          return formatResult(outputFormat, operation, this.analyzeFunctionality(), report => this.formatFunctionality(report));
 
         case 'cross_references':
-          return new StringToolOutput(this.analyzeCrossReferences());
+          return formatResult(outputFormat, operation, this.analyzeCrossReferences(), references => this.formatCrossReferences(references));
 
-        case 'call_graph':
-          return new StringToolOutput(this.generateCallGraph());
+        case 'call_graph': {
+          const graph = buildCallGraph(this.getSymbolTable(), functionName, input.depth ?? (functionName ? 3 : Infinity));
+          if (functionName && graph.roots.length === 0) {
+            return fail(`No function named ${functionName} found.`);
+          }
+          return formatResult(outputFormat, operation, graph, graph => this.formatCallGraph(graph, functionName, input.depth, input.graphFormat));
+        }
 
         default:
-          return new StringToolOutput(`Error: Unknown operation: ${operation}`);
+          return fail(`Unknown operation: ${operation}`);
       }
     } catch (error) {
       throw this.toError(error as Error, { input, options });
@@ -207,7 +373,7 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     targetPath: string, 
     options: { includeExtensions?: string[], excludeExtensions?: string[], maxDepth?: number }
   ): Promise<void> {
-    const { includeExtensions, excludeExtensions, maxDepth = 10 } = options;
+    const { includeExtensions, excludeExtensions, maxDepth = this.analysisConfig.maxDepth } = options;
     
     if (!fs.existsSync(targetPath)) {
       throw new Error(`Path does not exist: ${targetPath}`);
@@ -238,7 +404,20 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
       crossReferences: {}
     };
 
+    this.ignoreRules = new IgnoreRules(targetPath, {
+      skipDirs: this.analysisConfig.skipDirs,
+      patterns: this.analysisConfig.ignore
+    });
+
+    this.fileAnalyses = new Map();
+    this.moduleResolver = null;
+    this.symbolTable = null;
+    this.moduleGraph = null;
+    this.indexCache = this.analysisConfig.cache ? new IndexCache(targetPath, INDEX_CACHE_VERSION) : null;
+    this.indexCache?.load();
+
     await this.scanDirectory(targetPath, 0, maxDepth, includeExtensions, excludeExtensions);
+    this.indexCache?.save();
     this.buildStructure();
     await this.performAdvancedAnalysis();
   }
@@ -257,30 +436,41 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     for (const entry of entries) {
       const fullPath = path.join(dirPath, entry.name);
       
-      // Skip common directories to ignore
+      // Skip configured directories and anything matched by ignore files
       if (entry.isDirectory()) {
-        const skipDirs = ['node_modules', '.git', 'dist', 'build', '.next', 'coverage', '.nyc_output'];
-        if (skipDirs.includes(entry.name)) continue;
+        if (this.ignoreRules!.check(fullPath, true)) continue;
         
         await this.scanDirectory(fullPath, currentDepth + 1, maxDepth, includeExtensions, excludeExtensions);
       } else if (entry.isFile()) {
+        if (this.ignoreRules!.check(fullPath, false)) continue;
+
         const ext = path.extname(entry.name).toLowerCase();
         
         // Apply extension filters
-        if (includeExtensions && !includeExtensions.includes(ext)) continue;
-        if (excludeExtensions && excludeExtensions.includes(ext)) continue;
+        if ((includeExtensions && !includeExtensions.includes(ext)) || (excludeExtensions && excludeExtensions.includes(ext))) {
+          this.ignoreRules!.record('extensionFilter');
+          continue;
+        }
         
         // Skip binary and large files
         const skipExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.ico', '.svg', '.pdf', '.zip', '.tar', '.gz'];
-        if (skipExtensions.includes(ext)) continue;
+        if (skipExtensions.includes(ext)) {
+          this.ignoreRules!.record('binary');
+          continue;
+        }
         
         try {
+          const fileStats = fs.statSync(fullPath);
+          const size = fileStats.size;
+          
+          // Skip very large files
+          if (size > this.analysisConfig.maxFileSize) {
+            this.ignoreRules!.record('tooLarge');
+            continue;
+          }
+          
           const content = fs.readFileSync(fullPath, 'utf-8');
           const lines = content.split('\n').length;
-          const size = fs.statSync(fullPath).size;
-          
-          // Skip very large files (> 1MB)
-          if (size > 1024 * 1024) continue;
           
           const fileInfo: FileInfo = {
             path: path.relative(this.currentPath!, fullPath),
@@ -291,6 +481,9 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
           };
           
           this.codebaseIndex!.files.push(fileInfo);
+          this.fileAnalyses.set(fileInfo.path, this.indexCache
+            ? this.indexCache.getOrAnalyze(fileInfo.path, fileStats, content, () => this.analyzeFile(fileInfo))
+            : this.analyzeFile(fileInfo));
           this.codebaseIndex!.totalFiles++;
           this.codebaseIndex!.totalLines += lines;
           
@@ -375,51 +568,66 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     this.codebaseIndex!.structure = structure;
   }
 
-  private formatAnalysisResult(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
+  private getOverview(): CodebaseOverview {
+    const index = this.codebaseIndex!;
+    return {
+      path: this.currentPath!,
+      totalFiles: index.totalFiles,
+      totalLines: index.totalLines,
+      languages: index.languages,
+      excluded: this.ignoreRules?.getTotalExcluded() ?? { files: 0, directories: 0 },
+      cache: this.indexCache?.getStats() ?? null
+    };
+  }
 
+  private formatOverview(overview: CodebaseOverview): string {
     const lines = [
       `📁 Codebase Analysis Complete`,
-      `📍 Path: ${this.currentPath}`,
+      `📍 Path: ${overview.path}`,
       `📊 Statistics:`,
-      `  • Total Files: ${this.codebaseIndex.totalFiles}`,
-      `  • Total Lines: ${this.codebaseIndex.totalLines.toLocaleString()}`,
-      `  • Languages Detected: ${Object.keys(this.codebaseIndex.languages).length}`,
+      `  • Total Files: ${overview.totalFiles}`,
+      `  • Total Lines: ${overview.totalLines.toLocaleString()}`,
+      `  • Languages Detected: ${Object.keys(overview.languages).length}`,
       ``,
       `🔤 Language Breakdown:`
     ];
 
     // Sort languages by file count
-    const sortedLanguages = Object.entries(this.codebaseIndex.languages)
+    const sortedLanguages = Object.entries(overview.languages)
       .sort(([,a], [,b]) => b - a);
 
     for (const [language, count] of sortedLanguages) {
       lines.push(`  • ${language}: ${count} files`);
     }
 
+    const { excluded } = overview;
+    if (excluded.files > 0 || excluded.directories > 0) {
+      lines.push(``, `🚫 Excluded: ${excluded.files} files, ${excluded.directories} directories`);
+      lines.push(...this.ignoreRules!.formatExclusions());
+    }
+
+    if (overview.cache) {
+      lines.push(``, `♻️ Index Cache: ${overview.cache.reused} files reused, ${overview.cache.analyzed} analyzed, ${overview.cache.removed} removed`);
+    }
+
     lines.push(``, `✅ Codebase indexed and ready for analysis!`);
     lines.push(`💡 Try: search, explain, find_function, find_class, dependencies, structure`);
 
     return lines.join('\n');
   }
 
-  private async searchCodebase(query: string): Promise<string> {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet. Please run analyze operation first.';
-    }
-
-    const results: Array<{file: string, matches: Array<{line: number, content: string}>}> = [];
+  private searchCodebase(query: string): TextSearchResult {
+    const files: TextSearchResult['files'] = [];
     const searchRegex = new RegExp(query, 'gi');
 
-    for (const file of this.codebaseIndex.files) {
-      const matches: Array<{line: number, content: string}> = [];
+    for (const file of this.codebaseIndex!.files) {
+      const matches: SourceLine[] = [];
       const lines = file.content.split('\n');
 
       lines.forEach((line, index) => {
         if (searchRegex.test(line)) {
           matches.push({
+            file: file.path,
             line: index + 1,
             content: line.trim()
           });
@@ -427,20 +635,24 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
       });
 
       if (matches.length > 0) {
-        results.push({
+        files.push({
           file: file.path,
           matches: matches.slice(0, 5) // Limit to 5 matches per file
         });
       }
     }
 
-    if (results.length === 0) {
+    return { query, files };
+  }
+
+  private formatSearchResult({ query, files }: TextSearchResult): string {
+    if (files.length === 0) {
       return `No matches found for "${query}"`;
     }
 
     const lines = [`🔍 Search Results for "${query}":`, ``];
     
-    for (const result of results.slice(0, 10)) { // Limit to 10 files
+    for (const result of files.slice(0, 10)) { // Limit to 10 files
       lines.push(`📄 ${result.file}:`);
       for (const match of result.matches) {
         lines.push(`  Line ${match.line}: ${match.content}`);
@@ -451,59 +663,46 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private async explainCodebase(question: string): Promise<string> {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet. Please run analyze operation first.';
-    }
-
-    const lines = [
-      `🤔 Question: ${question}`,
-      ``,
-      `📊 Codebase Context:`,
-      `• ${this.codebaseIndex.totalFiles} files analyzed`,
-      `• ${this.codebaseIndex.totalLines.toLocaleString()} lines of code`,
-      `• Primary languages: ${Object.keys(this.codebaseIndex.languages).slice(0, 3).join(', ')}`,
-      `• ${this.codebaseIndex.functions.length} functions, ${this.codebaseIndex.classes.length} classes`,
-      `• ${this.codebaseIndex.architecturalPatterns.length} architectural patterns detected`,
-      `• ${this.codebaseIndex.designPatterns.length} design patterns found`,
-      ``,
-      `🔍 Intelligent Analysis:`
-    ];
-
+  private explainCodebase(question: string): CodebaseExplanation {
+    const index = this.codebaseIndex!;
+    const insights: string[] = [];
+    const recommendations: string[] = [];
     const lowerQuestion = question.toLowerCase();
     
     // Architecture and design questions
     if (lowerQuestion.includes('architecture') || lowerQuestion.includes('design') || lowerQuestion.includes('structure')) {
-      if (this.codebaseIndex.architecturalPatterns.length > 0) {
-        lines.push(`• Architecture: Detected ${this.codebaseIndex.architecturalPatterns.map(p => p.name).join(', ')}`);
-        const mainPattern = this.codebaseIndex.architecturalPatterns[0];
-        lines.push(`• Primary pattern: ${mainPattern.name} (${(mainPattern.confidence * 100).toFixed(1)}% confidence)`);
-        lines.push(`• Evidence: ${mainPattern.evidence[0]}`);
+      if (index.architecturalPatterns.length > 0) {
+        insights.push(`Architecture: Detected ${index.architecturalPatterns.map(p => p.name).join(', ')}`);
+        const mainPattern = index.architecturalPatterns[0];
+        insights.push(`Primary pattern: ${mainPattern.name} (${(mainPattern.confidence * 100).toFixed(1)}% confidence)`);
+        insights.push(`Evidence: ${mainPattern.evidence[0]}`);
       } else {
-        lines.push('• Architecture: No clear architectural patterns detected - may be a simple or early-stage project');
+        insights.push('Architecture: No clear architectural patterns detected - may be a simple or early-stage project');
       }
     }
     
     // Code quality questions
     if (lowerQuestion.includes('quality') || lowerQuestion.includes('maintainability') || lowerQuestion.includes('complexity')) {
-      const quality = this.codebaseIndex.codeQuality;
-      lines.push(`• Code Quality: ${quality.maintainabilityScore.toFixed(1)}/100 maintainability score`);
-      lines.push(`• Complexity: Average function complexity is ${quality.complexity.toFixed(2)}`);
+      const quality = index.codeQuality;
+      insights.push(`Code Quality: ${quality.maintainabilityScore.toFixed(1)}/100 maintainability score`);
+      insights.push(`Complexity: Average function complexity is ${quality.complexity.toFixed(2)}`);
       if (quality.codeSmells.length > 0) {
-        lines.push(`• Issues: ${quality.codeSmells.length} code smells detected`);
-        lines.push(`• Top concern: ${quality.codeSmells[0]}`);
+        insights.push(`Issues: ${quality.codeSmells.length} code smells detected`);
+        insights.push(`Top concern: ${quality.codeSmells[0]}`);
       }
     }
     
     // Technology and language questions
     if (lowerQuestion.includes('technology') || lowerQuestion.includes('language') || lowerQuestion.includes('stack')) {
-      const mainLanguage = Object.entries(this.codebaseIndex.languages)
+      const mainLanguage = Object.entries(index.languages)
         .sort(([,a], [,b]) => b - a)[0];
-      lines.push(`• Primary Technology: ${mainLanguage[0]} (${mainLanguage[1]} files)`);
+      if (mainLanguage) {
+        insights.push(`Primary Technology: ${mainLanguage[0]} (${mainLanguage[1]} files)`);
+      }
       
-      if (this.codebaseIndex.designPatterns.length > 0) {
-        const patterns = [...new Set(this.codebaseIndex.designPatterns.map(p => p.name))];
-        lines.push(`• Design Patterns: Uses ${patterns.slice(0, 3).join(', ')}`);
+      if (index.designPatterns.length > 0) {
+        const patterns = [...new Set(index.designPatterns.map(p => p.name))];
+        insights.push(`Design Patterns: Uses ${patterns.slice(0, 3).join(', ')}`);
       }
     }
     
@@ -515,122 +714,156 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
         .slice(0, 3);
       
       if (topCategories.length > 0) {
-        lines.push(`• Main Functionality: ${topCategories.map(([cat, count]) => `${cat} (${count})`).join(', ')}`);
+        insights.push(`Main Functionality: ${topCategories.map(([cat, count]) => `${cat} (${count})`).join(', ')}`);
       }
       
-      if (this.codebaseIndex.classes.length > 0) {
+      if (index.classes.length > 0) {
         const hierarchies = this.analyzeClassHierarchies();
         if (hierarchies.length > 0) {
-          lines.push(`• Object Model: ${hierarchies.length} inheritance/implementation relationships`);
+          insights.push(`Object Model: ${hierarchies.length} inheritance/implementation relationships`);
         }
       }
     }
     
     // Size and scale questions
     if (lowerQuestion.includes('size') || lowerQuestion.includes('large') || lowerQuestion.includes('scale')) {
-      const avgFileSize = this.codebaseIndex.totalLines / this.codebaseIndex.totalFiles;
-      lines.push(`• Scale: ${this.codebaseIndex.totalFiles} files, average ${avgFileSize.toFixed(0)} lines per file`);
+      const avgFileSize = index.totalLines / index.totalFiles;
+      insights.push(`Scale: ${index.totalFiles} files, average ${avgFileSize.toFixed(0)} lines per file`);
       
-      const complexFunctions = this.codebaseIndex.functions.filter(f => f.complexity > 10).length;
+      const complexFunctions = index.functions.filter(f => f.complexity > 10).length;
       if (complexFunctions > 0) {
-        lines.push(`• Complexity hotspots: ${complexFunctions} high-complexity functions need attention`);
+        insights.push(`Complexity hotspots: ${complexFunctions} high-complexity functions need attention`);
       }
     }
     
     // Dependencies and modularity
     if (lowerQuestion.includes('depend') || lowerQuestion.includes('import') || lowerQuestion.includes('modular')) {
-      const crossRefs = Object.values(this.codebaseIndex.crossReferences);
+      const crossRefs = Object.values(index.crossReferences);
       const avgDependencies = crossRefs.reduce((sum, refs) => sum + refs.length, 0) / crossRefs.length;
-      lines.push(`• Modularity: Average ${avgDependencies.toFixed(1)} dependencies per file`);
+      insights.push(`Modularity: Average ${avgDependencies.toFixed(1)} dependencies per file`);
       
       const highDependencyFiles = crossRefs.filter(refs => refs.length > 10).length;
       if (highDependencyFiles > 0) {
-        lines.push(`• Coupling: ${highDependencyFiles} files have high dependency counts (>10)`);
+        insights.push(`Coupling: ${highDependencyFiles} files have high dependency counts (>10)`);
       }
     }
 
     // Add smart recommendations
-    lines.push(``, `💡 Smart Recommendations:`);
-    
-    if (this.codebaseIndex.codeQuality.maintainabilityScore < 70) {
-      lines.push(`• Consider refactoring: Maintainability score is below 70`);
+    if (index.codeQuality.maintainabilityScore < 70) {
+      recommendations.push('Consider refactoring: Maintainability score is below 70');
     }
     
-    if (this.codebaseIndex.architecturalPatterns.length === 0) {
-      lines.push(`• Consider architectural patterns for better organization`);
+    if (index.architecturalPatterns.length === 0) {
+      recommendations.push('Consider architectural patterns for better organization');
     }
     
-    if (this.codebaseIndex.designPatterns.length < 3) {
-      lines.push(`• Could benefit from more design patterns for maintainability`);
-    }
+    if (index.designPatterns.length < 3) {
+      recommendations.push('Could benefit from more design patterns for maintainability');
+    }
+
+    return {
+      question,
+      context: {
+        files: index.totalFiles,
+        lines: index.totalLines,
+        languages: Object.keys(index.languages),
+        functions: index.functions.length,
+        classes: index.classes.length,
+        architecturalPatterns: index.architecturalPatterns.length,
+        designPatterns: index.designPatterns.length
+      },
+      insights,
+      recommendations
+    };
+  }
 
-    lines.push(``, `🔧 For deeper analysis: architecture, design_patterns, code_quality, complexity`);
+  private formatExplanation({ question, context, insights, recommendations }: CodebaseExplanation): string {
+    const lines = [
+      `🤔 Question: ${question}`,
+      ``,
+      `📊 Codebase Context:`,
+      `• ${context.files} files analyzed`,
+      `• ${context.lines.toLocaleString()} lines of code`,
+      `• Primary languages: ${context.languages.slice(0, 3).join(', ')}`,
+      `• ${context.functions} functions, ${context.classes} classes`,
+      `• ${context.architecturalPatterns} architectural patterns detected`,
+      `• ${context.designPatterns} design patterns found`,
+      ``,
+      `🔍 Intelligent Analysis:`,
+      ...insights.map(insight => `• ${insight}`),
+      ``,
+      `💡 Smart Recommendations:`,
+      ...recommendations.map(recommendation => `• ${recommendation}`),
+      ``,
+      `🔧 For deeper analysis: architecture, design_patterns, code_quality, complexity`
+    ];
 
     return lines.join('\n');
   }
 
-  private getCodebaseStructure(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
+  private formatStructure(structure: DirectoryTree): string {
     const lines = ['📂 Codebase Structure:', ''];
     
-    const formatStructure = (obj: any, prefix: string = '', depth: number = 0): void => {
+    const formatStructure = (tree: DirectoryTree, prefix: string = '', depth: number = 0): void => {
       if (depth > 5) return; // Limit depth to prevent overwhelming output
       
-      const entries = Object.entries(obj);
+      const entries = Object.entries(tree);
       entries.forEach(([key, value], index) => {
         const isLast = index === entries.length - 1;
         const connector = isLast ? '└── ' : '├── ';
         
-        if (typeof value === 'object' && value !== null && 'type' in value && value.type === 'file') {
-          const fileInfo = value as { type: string; lines: number; size: number; extension: string };
-          lines.push(`${prefix}${connector}${key} (${fileInfo.lines} lines)`);
-        } else if (typeof value === 'object' && value !== null) {
+        if (value.type === 'file') {
+          lines.push(`${prefix}${connector}${key} (${(value as FileEntry).lines} lines)`);
+        } else {
           lines.push(`${prefix}${connector}${key}/`);
           const newPrefix = prefix + (isLast ? '    ' : '│   ');
-          formatStructure(value, newPrefix, depth + 1);
+          formatStructure(value as DirectoryTree, newPrefix, depth + 1);
         }
       });
     };
 
-    formatStructure(this.codebaseIndex.structure);
+    formatStructure(structure);
     
     return lines.join('\n');
   }
 
-  private getCodebaseStats(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
+  private getCodebaseStats(): CodebaseStats {
+    const index = this.codebaseIndex!;
 
+    const languages = Object.entries(index.languages)
+      .sort(([,a], [,b]) => b - a)
+      .map(([language, files]) => ({ language, files, percentage: (files / index.totalFiles) * 100 }));
+
+    // File size statistics
+    const totalSize = index.files.reduce((sum, file) => sum + file.size, 0);
+
+    return {
+      totalFiles: index.totalFiles,
+      totalLines: index.totalLines,
+      languages,
+      totalSize,
+      averageFileSize: index.files.length > 0 ? Math.round(totalSize / index.files.length) : 0
+    };
+  }
+
+  private formatStats(stats: CodebaseStats): string {
     const lines = [
       '📊 Detailed Codebase Statistics:',
       '',
-      `📁 Files: ${this.codebaseIndex.totalFiles}`,
-      `📝 Lines: ${this.codebaseIndex.totalLines.toLocaleString()}`,
-      `🔤 Languages: ${Object.keys(this.codebaseIndex.languages).length}`,
+      `📁 Files: ${stats.totalFiles}`,
+      `📝 Lines: ${stats.totalLines.toLocaleString()}`,
+      `🔤 Languages: ${stats.languages.length}`,
       '',
       '📈 Language Distribution:'
     ];
 
-    const sortedLanguages = Object.entries(this.codebaseIndex.languages)
-      .sort(([,a], [,b]) => b - a);
-
-    for (const [language, count] of sortedLanguages) {
-      const percentage = ((count / this.codebaseIndex.totalFiles) * 100).toFixed(1);
-      lines.push(`  ${language}: ${count} files (${percentage}%)`);
+    for (const { language, files, percentage } of stats.languages) {
+      lines.push(`  ${language}: ${files} files (${percentage.toFixed(1)}%)`);
     }
 
-    // File size statistics
-    const fileSizes = this.codebaseIndex.files.map(f => f.size);
-    const totalSize = fileSizes.reduce((sum, size) => sum + size, 0);
-    const avgSize = Math.round(totalSize / fileSizes.length);
-
     lines.push('', '💾 Size Statistics:');
-    lines.push(`  Total Size: ${this.formatBytes(totalSize)}`);
-    lines.push(`  Average File Size: ${this.formatBytes(avgSize)}`);
+    lines.push(`  Total Size: ${this.formatBytes(stats.totalSize)}`);
+    lines.push(`  Average File Size: ${this.formatBytes(stats.averageFileSize)}`);
 
     return lines.join('\n');
   }
@@ -643,60 +876,31 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 
-  private findFunction(functionName: string): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
-    const results: Array<{file: string, line: number, content: string}> = [];
+  private findFunction(functionName: string): DeclarationSearchResult {
     const functionRegex = new RegExp(
       `(function\\s+${functionName}\\s*\\(|${functionName}\\s*[:=]\\s*function|${functionName}\\s*\\(.*\\)\\s*=>|def\\s+${functionName}\\s*\\(|${functionName}\\s*\\(.*\\)\\s*{)`,
       'gi'
     );
 
-    for (const file of this.codebaseIndex.files) {
-      const lines = file.content.split('\n');
-      lines.forEach((line, index) => {
-        if (functionRegex.test(line)) {
-          results.push({
-            file: file.path,
-            line: index + 1,
-            content: line.trim()
-          });
-        }
-      });
-    }
-
-    if (results.length === 0) {
-      return `No function named "${functionName}" found.`;
-    }
-
-    const lines = [`🔍 Function "${functionName}" found:`, ''];
-    
-    for (const result of results) {
-      lines.push(`📄 ${result.file}:${result.line}`);
-      lines.push(`   ${result.content}`);
-      lines.push('');
-    }
-
-    return lines.join('\n');
+    return { name: functionName, matches: this.findMatchingLines(functionRegex) };
   }
 
-  private findClass(className: string): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
-    const results: Array<{file: string, line: number, content: string}> = [];
+  private findClass(className: string): DeclarationSearchResult {
     const classRegex = new RegExp(
       `(class\\s+${className}\\s*[{(:]|interface\\s+${className}\\s*[{]|type\\s+${className}\\s*=)`,
       'gi'
     );
 
-    for (const file of this.codebaseIndex.files) {
+    return { name: className, matches: this.findMatchingLines(classRegex) };
+  }
+
+  private findMatchingLines(regex: RegExp): SourceLine[] {
+    const results: SourceLine[] = [];
+
+    for (const file of this.codebaseIndex!.files) {
       const lines = file.content.split('\n');
       lines.forEach((line, index) => {
-        if (classRegex.test(line)) {
+        if (regex.test(line)) {
           results.push({
             file: file.path,
             line: index + 1,
@@ -706,13 +910,17 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
       });
     }
 
-    if (results.length === 0) {
-      return `No class named "${className}" found.`;
+    return results;
+  }
+
+  private formatDeclarationSearch(kind: 'Function' | 'Class', { name, matches }: DeclarationSearchResult): string {
+    if (matches.length === 0) {
+      return `No ${kind.toLowerCase()} named "${name}" found.`;
     }
 
-    const lines = [`🔍 Class "${className}" found:`, ''];
+    const lines = [`🔍 ${kind} "${name}" found:`, ''];
     
-    for (const result of results) {
+    for (const result of matches) {
       lines.push(`📄 ${result.file}:${result.line}`);
       lines.push(`   ${result.content}`);
       lines.push('');
@@ -721,70 +929,106 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private analyzeDependencies(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
+  private analyzeDependencies(): DependencyReport {
+    const graph = this.getModuleGraph();
+    return { ...graph, violations: checkLayerRules(graph, this.architectureConfig.rules) };
+  }
+
+  private formatDependencies(report: DependencyReport, format: GraphFormat = 'text'): string {
+    const { violations, ...graph } = report;
+
+    switch (format) {
+      case 'dot':
+        return toDot(graph, 'module dependencies', graph.cycles);
+      case 'mermaid':
+        return toMermaid(graph, graph.cycles);
+      case 'json':
+        return JSON.stringify(report, null, 2);
     }
 
-    const dependencies = new Set<string>();
-    const imports = new Set<string>();
+    const externals = new Map<string, number>();
+    for (const node of graph.nodes) {
+      for (const specifier of node.externals) {
+        externals.set(specifier, (externals.get(specifier) || 0) + 1);
+      }
+    }
 
-    for (const file of this.codebaseIndex.files) {
-      const lines = file.content.split('\n');
-      
-      for (const line of lines) {
-        // Find import statements
-        const importMatch = line.match(/import\s+.*?\s+from\s+['"]([^'"]+)['"]/);
-        if (importMatch) {
-          imports.add(importMatch[1]);
-        }
-        
-        // Find require statements
-        const requireMatch = line.match(/require\s*\(\s*['"]([^'"]+)['"]\s*\)/);
-        if (requireMatch) {
-          dependencies.add(requireMatch[1]);
-        }
+    const lines = [
+      '📦 Module Dependency Graph:',
+      '',
+      `📊 ${graph.nodes.length} modules · ${graph.edges.length} internal imports · ${externals.size} external packages`,
+      ''
+    ];
+
+    if (graph.cycles.length > 0) {
+      lines.push(`🔁 Circular Imports (${graph.cycles.length}):`);
+      for (const cycle of graph.cycles) {
+        const path = shortestCycle(graph, cycle);
+        const others = cycle.length - (path.length - 1);
+        lines.push(`  • ${path.join(' → ')}${others > 0 ? ` (+${others} more in the cycle)` : ''}`);
       }
+      lines.push('');
     }
 
-    const lines = ['📦 Dependencies Analysis:', ''];
-    
-    if (imports.size > 0) {
-      lines.push('📥 Imports:');
-      Array.from(imports).slice(0, 20).forEach(imp => {
-        lines.push(`  • ${imp}`);
-      });
+    if (this.architectureConfig.rules.length > 0) {
+      lines.push(violations.length > 0
+        ? `🚧 Layering Violations (${violations.length}):`
+        : `✅ No layering violations (${this.architectureConfig.rules.length} rules checked)`);
+      for (const { rule, from, to, line } of violations) {
+        lines.push(`  • ${from}:${line} → ${to}`);
+        lines.push(`    Rule: ${rule.from} must not import ${rule.disallow.join(', ')}${rule.description ? ` (${rule.description})` : ''}`);
+      }
       lines.push('');
     }
-    
-    if (dependencies.size > 0) {
-      lines.push('🔗 Dependencies:');
-      Array.from(dependencies).slice(0, 20).forEach(dep => {
-        lines.push(`  • ${dep}`);
+
+    // Most depended-upon modules first; they are the most expensive to change
+    const metrics = [...graph.nodes].sort((a, b) => b.fanIn - a.fanIn || b.fanOut - a.fanOut || a.file.localeCompare(b.file));
+    lines.push('📈 Module Metrics (fan-in · fan-out · instability):');
+    metrics.slice(0, 15).forEach(node => {
+      lines.push(`  • ${node.file}: in ${node.fanIn} · out ${node.fanOut} · I ${node.instability.toFixed(2)}`);
+    });
+    if (metrics.length > 15) {
+      lines.push(`  ... and ${metrics.length - 15} more modules`);
+    }
+
+    if (externals.size > 0) {
+      lines.push('', '📥 External Packages:');
+      [...externals.entries()].sort((a, b) => b[1] - a[1]).slice(0, 20).forEach(([specifier, count]) => {
+        lines.push(`  • ${specifier} (${count} ${count === 1 ? 'module' : 'modules'})`);
       });
     }
 
-    if (imports.size === 0 && dependencies.size === 0) {
-      lines.push('No dependencies found in the analyzed files.');
+    if (graph.unresolved.length > 0) {
+      lines.push('', `⚠️ Unresolved Imports (${graph.unresolved.length}):`);
+      graph.unresolved.slice(0, 20).forEach(({ file, line, specifier }) => {
+        lines.push(`  • ${file}:${line} '${specifier}'`);
+      });
     }
 
     return lines.join('\n');
   }
 
-  private listFiles(language?: string): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
-    let files = this.codebaseIndex.files;
+  private listFiles(language?: string): FileSummary[] {
+    let files = this.codebaseIndex!.files.map(file => this.toFileSummary(file));
     
     if (language) {
       const targetLang = language.toLowerCase();
-      files = files.filter(file => 
-        this.getLanguageFromExtension(file.extension).toLowerCase().includes(targetLang)
-      );
+      files = files.filter(file => file.language.toLowerCase().includes(targetLang));
     }
 
+    return files;
+  }
+
+  private toFileSummary(file: FileInfo): FileSummary {
+    return {
+      path: file.path,
+      language: this.getLanguageFromExtension(file.extension),
+      lines: file.lines,
+      size: file.size
+    };
+  }
+
+  private formatFileList(files: FileSummary[], language?: string): string {
     const lines = [
       language ? `📄 ${language} Files:` : '📄 All Files:',
       ''
@@ -801,19 +1045,15 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private getFileContent(fileName: string): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
-    const file = this.codebaseIndex.files.find(f => 
+  private getFileContent(fileName: string): FileContent | null {
+    const file = this.codebaseIndex!.files.find(f => 
       f.path.includes(fileName) || f.path.endsWith(fileName)
     );
 
-    if (!file) {
-      return `File "${fileName}" not found in the analyzed codebase.`;
-    }
+    return file ? { ...this.toFileSummary(file), content: file.content } : null;
+  }
 
+  private formatFileContent(file: FileContent): string {
     const lines = [
       `📄 ${file.path}`,
       `📊 ${file.lines} lines, ${this.formatBytes(file.size)}`,
@@ -825,21 +1065,28 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private getCodebaseSummary(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
-    const mainLanguage = Object.entries(this.codebaseIndex.languages)
-      .sort(([,a], [,b]) => b - a)[0];
+  private getCodebaseSummary(): CodebaseSummary {
+    const index = this.codebaseIndex!;
+    const [language, files] = Object.entries(index.languages)
+      .sort(([,a], [,b]) => b - a)[0] ?? ['Unknown', 0];
+
+    return {
+      project: path.basename(this.currentPath!),
+      totalFiles: index.totalFiles,
+      totalLines: index.totalLines,
+      primaryLanguage: { language, files },
+      languages: Object.keys(index.languages)
+    };
+  }
 
+  private formatSummary(summary: CodebaseSummary): string {
     const lines = [
       '📋 Codebase Summary:',
       '',
-      `📁 Project: ${path.basename(this.currentPath!)}`,
-      `📊 Scale: ${this.codebaseIndex.totalFiles} files, ${this.codebaseIndex.totalLines.toLocaleString()} lines`,
-      `🔤 Primary Language: ${mainLanguage[0]} (${mainLanguage[1]} files)`,
-      `🌐 Technologies: ${Object.keys(this.codebaseIndex.languages).join(', ')}`,
+      `📁 Project: ${summary.project}`,
+      `📊 Scale: ${summary.totalFiles} files, ${summary.totalLines.toLocaleString()} lines`,
+      `🔤 Primary Language: ${summary.primaryLanguage.language} (${summary.primaryLanguage.files} files)`,
+      `🌐 Technologies: ${summary.languages.join(', ')}`,
       '',
       '🔍 Available Operations:',
       '  • search <query> - Search for code patterns',
@@ -868,12 +1115,66 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
   private async performAdvancedAnalysis(): Promise<void> {
     if (!this.codebaseIndex) return;
 
-    // Perform all advanced analysis
+    // Per-file results are already known (cached or freshly analyzed); only the aggregates are recomputed
+    this.aggregateFileAnalyses();
     await this.detectArchitecturalPatterns();
-    await this.detectDesignPatterns();
-    await this.analyzeFunctionsAndClasses();
     await this.calculateCodeQuality();
-    await this.buildCrossReferences();
+  }
+
+  private analyzeFile(file: FileInfo): FileAnalysis {
+    // JS/TS files are parsed once and the AST shared; declarations are only extracted from JS/TS
+    const ast = this.parseFile(file);
+    const { functions, classes } = ast
+      ? extractDeclarations(ast, file.content, file.path)
+      : { functions: [], classes: [] };
+
+    return {
+      functions,
+      classes,
+      designPatterns: this.detectDesignPatterns(file),
+      imports: ast ? this.extractAstImports(ast, file.content) : this.extractImports(file.content),
+      clones: ast ? extractCloneFragments(ast, file.path) : []
+    };
+  }
+
+  private parseFile(file: FileInfo): t.File | null {
+    if (!BABEL_EXTENSIONS.includes(file.extension)) {
+      return null;
+    }
+
+    try {
+      // Recoverable syntax errors still yield an AST, so a typo does not hide the whole file
+      return parseSource(file.content, { errorRecovery: true });
+    } catch {
+      return null; // Unrecoverable syntax errors cost this file its declarations and clone fragments
+    }
+  }
+
+  private extractAstImports(ast: t.File, content: string): ModuleImport[] {
+    try {
+      return extractModuleImports(ast);
+    } catch {
+      // Scope analysis rejects some recovered ASTs, such as ones with duplicate declarations
+      return this.extractImports(content);
+    }
+  }
+
+  private aggregateFileAnalyses(): void {
+    const index = this.codebaseIndex!;
+    index.functions = [];
+    index.classes = [];
+    index.designPatterns = [];
+    index.crossReferences = {};
+
+    for (const file of index.files) {
+      const analysis = this.fileAnalyses.get(file.path);
+      if (!analysis) continue;
+
+      index.functions.push(...analysis.functions);
+      index.classes.push(...analysis.classes);
+      index.designPatterns.push(...analysis.designPatterns);
+      index.crossReferences[file.path] = analysis.imports.map(entry => entry.specifier);
+    }
   }
 
   private async detectArchitecturalPatterns(): Promise<void> {
@@ -1099,202 +1400,122 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return { confidence: Math.min(score, 1.0), evidence };
   }
 
-  private async detectDesignPatterns(): Promise<void> {
-    if (!this.codebaseIndex) return;
-
-    const patterns: DesignPattern[] = [];
-
+  private detectDesignPatterns(file: FileInfo): DesignPattern[] {
     // Detect common design patterns
-    patterns.push(...this.detectSingletonPattern());
-    patterns.push(...this.detectFactoryPattern());
-    patterns.push(...this.detectObserverPattern());
-    patterns.push(...this.detectStrategyPattern());
-    patterns.push(...this.detectDecoratorPattern());
-    patterns.push(...this.detectRepositoryPattern());
-
-    this.codebaseIndex.designPatterns = patterns;
+    return [
+      this.detectSingletonPattern(file),
+      this.detectFactoryPattern(file),
+      this.detectObserverPattern(file),
+      this.detectStrategyPattern(file),
+      this.detectDecoratorPattern(file),
+      this.detectRepositoryPattern(file)
+    ].filter((pattern): pattern is DesignPattern => pattern !== null);
   }
 
-  private detectSingletonPattern(): DesignPattern[] {
-    const patterns: DesignPattern[] = [];
-    
-    for (const file of this.codebaseIndex!.files) {
-      const singletonPatterns = file.content.match(
-        /class\s+\w+\s*{[\s\S]*?private\s+static\s+\w+[\s\S]*?getInstance\s*\(/gi
-      );
+  private detectSingletonPattern(file: FileInfo): DesignPattern | null {
+    const singletonPatterns = file.content.match(
+      /class\s+\w+\s*{[\s\S]*?private\s+static\s+\w+[\s\S]*?getInstance\s*\(/gi
+    );
 
-      if (singletonPatterns) {
-        patterns.push({
-          name: 'Singleton Pattern',
-          location: file.path,
-          confidence: 0.8,
-          description: 'Ensures a class has only one instance and provides global access'
-        });
-      }
+    if (!singletonPatterns) {
+      return null;
     }
 
-    return patterns;
+    return {
+      name: 'Singleton Pattern',
+      location: file.path,
+      confidence: 0.8,
+      description: 'Ensures a class has only one instance and provides global access'
+    };
   }
 
-  private detectFactoryPattern(): DesignPattern[] {
-    const patterns: DesignPattern[] = [];
-    
-    for (const file of this.codebaseIndex!.files) {
-      const factoryPatterns = file.content.match(
-        /(class\s+\w*Factory\w*|function\s+create\w+|\.create\s*\()/gi
-      );
+  private detectFactoryPattern(file: FileInfo): DesignPattern | null {
+    const factoryPatterns = file.content.match(
+      /(class\s+\w*Factory\w*|function\s+create\w+|\.create\s*\()/gi
+    );
 
-      if (factoryPatterns && factoryPatterns.length > 2) {
-        patterns.push({
-          name: 'Factory Pattern',
-          location: file.path,
-          confidence: 0.7,
-          description: 'Creates objects without specifying exact classes'
-        });
-      }
+    if (!(factoryPatterns && factoryPatterns.length > 2)) {
+      return null;
     }
 
-    return patterns;
+    return {
+      name: 'Factory Pattern',
+      location: file.path,
+      confidence: 0.7,
+      description: 'Creates objects without specifying exact classes'
+    };
   }
 
-  private detectObserverPattern(): DesignPattern[] {
-    const patterns: DesignPattern[] = [];
-    
-    for (const file of this.codebaseIndex!.files) {
-      const observerPatterns = file.content.match(
-        /(addEventListener|on\w+|subscribe|notify|observer)/gi
-      );
+  private detectObserverPattern(file: FileInfo): DesignPattern | null {
+    const observerPatterns = file.content.match(
+      /(addEventListener|on\w+|subscribe|notify|observer)/gi
+    );
 
-      if (observerPatterns && observerPatterns.length > 3) {
-        patterns.push({
-          name: 'Observer Pattern',
-          location: file.path,
-          confidence: 0.6,
-          description: 'Defines one-to-many dependency between objects'
-        });
-      }
+    if (!(observerPatterns && observerPatterns.length > 3)) {
+      return null;
     }
 
-    return patterns;
+    return {
+      name: 'Observer Pattern',
+      location: file.path,
+      confidence: 0.6,
+      description: 'Defines one-to-many dependency between objects'
+    };
   }
 
-  private detectStrategyPattern(): DesignPattern[] {
-    const patterns: DesignPattern[] = [];
-    
-    for (const file of this.codebaseIndex!.files) {
-      const strategyPatterns = file.content.match(
-        /(interface\s+\w*Strategy|class\s+\w*Strategy|strategy\s*:|setStrategy)/gi
-      );
+  private detectStrategyPattern(file: FileInfo): DesignPattern | null {
+    const strategyPatterns = file.content.match(
+      /(interface\s+\w*Strategy|class\s+\w*Strategy|strategy\s*:|setStrategy)/gi
+    );
 
-      if (strategyPatterns && strategyPatterns.length > 1) {
-        patterns.push({
-          name: 'Strategy Pattern',
-          location: file.path,
-          confidence: 0.7,
-          description: 'Defines family of algorithms and makes them interchangeable'
-        });
-      }
+    if (!(strategyPatterns && strategyPatterns.length > 1)) {
+      return null;
     }
 
-    return patterns;
+    return {
+      name: 'Strategy Pattern',
+      location: file.path,
+      confidence: 0.7,
+      description: 'Defines family of algorithms and makes them interchangeable'
+    };
   }
 
-  private detectDecoratorPattern(): DesignPattern[] {
-    const patterns: DesignPattern[] = [];
-    
-    for (const file of this.codebaseIndex!.files) {
-      const decoratorPatterns = file.content.match(
-        /(@\w+|decorator|wrapper|\.wrap\()/gi
-      );
+  private detectDecoratorPattern(file: FileInfo): DesignPattern | null {
+    const decoratorPatterns = file.content.match(
+      /(@\w+|decorator|wrapper|\.wrap\()/gi
+    );
 
-      if (decoratorPatterns && decoratorPatterns.length > 2) {
-        patterns.push({
-          name: 'Decorator Pattern',
-          location: file.path,
-          confidence: 0.6,
-          description: 'Adds behavior to objects dynamically without altering structure'
-        });
-      }
+    if (!(decoratorPatterns && decoratorPatterns.length > 2)) {
+      return null;
     }
 
-    return patterns;
+    return {
+      name: 'Decorator Pattern',
+      location: file.path,
+      confidence: 0.6,
+      description: 'Adds behavior to objects dynamically without altering structure'
+    };
   }
 
-  private detectRepositoryPattern(): DesignPattern[] {
-    const patterns: DesignPattern[] = [];
-    
-    for (const file of this.codebaseIndex!.files) {
-      const repoPatterns = file.content.match(
-        /(class\s+\w*Repository|interface\s+\w*Repository|\.findBy|\.save\(|\.delete\()/gi
-      );
+  private detectRepositoryPattern(file: FileInfo): DesignPattern | null {
+    const repoPatterns = file.content.match(
+      /(class\s+\w*Repository|interface\s+\w*Repository|\.findBy|\.save\(|\.delete\()/gi
+    );
 
-      if (repoPatterns && repoPatterns.length > 2) {
-        patterns.push({
-          name: 'Repository Pattern',
-          location: file.path,
-          confidence: 0.8,
-          description: 'Encapsulates data access logic and provides centralized data access'
-        });
-      }
+    if (!(repoPatterns && repoPatterns.length > 2)) {
+      return null;
     }
 
-    return patterns;
+    return {
+      name: 'Repository Pattern',
+      location: file.path,
+      confidence: 0.8,
+      description: 'Encapsulates data access logic and provides centralized data access'
+    };
   }
 
-  private async analyzeFunctionsAndClasses(): Promise<void> {
-    if (!this.codebaseIndex) return;
-
-    const functions: FunctionInfo[] = [];
-    const classes: ClassInfo[] = [];
-
-    for (const file of this.codebaseIndex.files) {
-      // Extract functions
-      const functionMatches = file.content.matchAll(
-        /(?:function\s+(\w+)\s*\(([^)]*)\)|(\w+)\s*[:=]\s*(?:function\s*\(([^)]*)\)|(?:\([^)]*\)|\w+)\s*=>\s*))/gi
-      );
-
-      for (const match of functionMatches) {
-        const functionName = match[1] || match[3];
-        const parameters = (match[2] || match[4] || '').split(',').map(p => p.trim()).filter(p => p);
-        
-        if (functionName) {
-          functions.push({
-            name: functionName,
-            location: file.path,
-            complexity: this.calculateFunctionComplexity(file.content, functionName),
-            parameters,
-            returnType: this.extractReturnType(file.content, functionName)
-          });
-        }
-      }
-
-      // Extract classes
-      const classMatches = file.content.matchAll(
-        /class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+([^{]+))?\s*{([^}]*)}/gi
-      );
-
-      for (const match of classMatches) {
-        const className = match[1];
-        const extendsClass = match[2];
-        const implementsInterfaces = match[3] ? match[3].split(',').map(i => i.trim()) : [];
-        const classBody = match[4];
-
-        const methods = this.extractClassMethods(classBody);
-        const properties = this.extractClassProperties(classBody);
-
-        classes.push({
-          name: className,
-          location: file.path,
-          methods,
-          properties,
-          extends: extendsClass,
-          implements: implementsInterfaces
-        });
-      }
-    }
-
-    this.codebaseIndex.functions = functions;
-    this.codebaseIndex.classes = classes;
+  private lineAt(content: string, offset: number): number {
+    return content.slice(0, offset).split('\n').length;
   }
 
   private calculateCodeQuality(): void {
@@ -1327,31 +1548,16 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     };
   }
 
-  private buildCrossReferences(): void {
-    if (!this.codebaseIndex) return;
-
-    const crossRefs: Record<string, string[]> = {};
-
-    for (const file of this.codebaseIndex.files) {
-      const imports = this.extractImports(file.content);
-      const functionCalls = this.extractFunctionCalls(file.content);
-      
-      crossRefs[file.path] = [...imports, ...functionCalls];
-    }
-
-    this.codebaseIndex.crossReferences = crossRefs;
-  }
-
   // ==================== ANALYSIS RESULT METHODS ====================
 
-  private analyzeArchitecture(): string {
-    if (!this.codebaseIndex || this.codebaseIndex.architecturalPatterns.length === 0) {
-      return 'No architectural patterns detected. Run analyze operation first.';
+  private formatArchitecture(patterns: ArchitecturalPattern[]): string {
+    if (patterns.length === 0) {
+      return 'No architectural patterns detected.';
     }
 
     const lines = ['🏗️ Architectural Analysis:', ''];
 
-    for (const pattern of this.codebaseIndex.architecturalPatterns) {
+    for (const pattern of patterns) {
       const confidence = (pattern.confidence * 100).toFixed(1);
       lines.push(`📐 ${pattern.name} (${confidence}% confidence)`);
       lines.push(`   ${pattern.description}`);
@@ -1363,16 +1569,16 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private analyzeDesignPatterns(): string {
-    if (!this.codebaseIndex || this.codebaseIndex.designPatterns.length === 0) {
-      return 'No design patterns detected. Run analyze operation first.';
+  private formatDesignPatterns(designPatterns: DesignPattern[]): string {
+    if (designPatterns.length === 0) {
+      return 'No design patterns detected.';
     }
 
     const lines = ['🎨 Design Patterns Analysis:', ''];
 
     // Group patterns by type
     const patternGroups: Record<string, DesignPattern[]> = {};
-    for (const pattern of this.codebaseIndex.designPatterns) {
+    for (const pattern of designPatterns) {
       if (!patternGroups[pattern.name]) {
         patternGroups[pattern.name] = [];
       }
@@ -1393,12 +1599,7 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private analyzeCodeQuality(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
-
-    const quality = this.codebaseIndex.codeQuality;
+  private formatCodeQuality(quality: CodeQuality): string {
     const lines = [
       '📊 Code Quality Analysis:',
       '',
@@ -1421,105 +1622,196 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return lines.join('\n');
   }
 
-  private analyzeComplexity(): string {
-    if (!this.codebaseIndex || this.codebaseIndex.functions.length === 0) {
-      return 'No functions analyzed yet. Run analyze operation first.';
-    }
+  private analyzeComplexity(): ComplexityReport {
+    const functions = this.codebaseIndex!.functions;
+    const sortedByComplexity = [...functions].sort((a, b) => b.complexity - a.complexity);
+
+    return {
+      totalFunctions: functions.length,
+      averageComplexity: functions.length > 0 ? functions.reduce((sum, f) => sum + f.complexity, 0) / functions.length : 0,
+      mostComplex: sortedByComplexity.slice(0, 10).map(func => ({
+        name: func.className ? `${func.className}.${func.name}` : func.name,
+        file: func.location,
+        line: func.line,
+        complexity: func.complexity
+      }))
+    };
+  }
 
-    const functions = this.codebaseIndex.functions;
-    const sortedByComplexity = functions.sort((a, b) => b.complexity - a.complexity);
+  private formatComplexity(report: ComplexityReport): string {
+    if (report.totalFunctions === 0) {
+      return 'No functions found in the analyzed codebase.';
+    }
 
     const lines = [
       '🧮 Complexity Analysis:',
       '',
-      `📊 Total Functions: ${functions.length}`,
-      `📈 Average Complexity: ${(functions.reduce((sum, f) => sum + f.complexity, 0) / functions.length).toFixed(2)}`,
+      `📊 Total Functions: ${report.totalFunctions}`,
+      `📈 Average Complexity: ${report.averageComplexity.toFixed(2)}`,
       ''
     ];
 
     lines.push('🔴 Most Complex Functions:');
-    sortedByComplexity.slice(0, 10).forEach(func => {
-      lines.push(`  • ${func.name} (${func.location}) - Complexity: ${func.complexity}`);
+    report.mostComplex.forEach(func => {
+      lines.push(`  • ${func.name} (${func.file}:${func.line}) - Complexity: ${func.complexity}`);
     });
 
     return lines.join('\n');
   }
 
-  private analyzeFunctionality(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
-    }
+  private analyzeFunctionality(): FunctionalityReport {
+    return {
+      functions: this.codebaseIndex!.functions.length,
+      classes: this.codebaseIndex!.classes.length,
+      categories: this.categorizeFunctions(),
+      hierarchies: this.analyzeClassHierarchies()
+    };
+  }
 
+  private formatFunctionality(report: FunctionalityReport): string {
     const lines = [
       '⚡ Functionality Analysis:',
       '',
-      `📋 Functions: ${this.codebaseIndex.functions.length}`,
-      `🏛️ Classes: ${this.codebaseIndex.classes.length}`,
+      `📋 Functions: ${report.functions}`,
+      `🏛️ Classes: ${report.classes}`,
       ''
     ];
 
     // Analyze function categories
-    const functionCategories = this.categorizeFunctions();
-    if (Object.keys(functionCategories).length > 0) {
+    if (Object.keys(report.categories).length > 0) {
       lines.push('🔍 Function Categories:');
-      for (const [category, count] of Object.entries(functionCategories)) {
+      for (const [category, count] of Object.entries(report.categories)) {
         lines.push(`  • ${category}: ${count} functions`);
       }
       lines.push('');
     }
 
     // Analyze class hierarchies
-    const classHierarchies = this.analyzeClassHierarchies();
-    if (classHierarchies.length > 0) {
+    if (report.hierarchies.length > 0) {
       lines.push('🏗️ Class Hierarchies:');
-      classHierarchies.forEach(hierarchy => lines.push(`  • ${hierarchy}`));
+      report.hierarchies.forEach(hierarchy => lines.push(`  • ${hierarchy}`));
     }
 
     return lines.join('\n');
   }
 
-  private analyzeCrossReferences(): string {
-    if (!this.codebaseIndex || Object.keys(this.codebaseIndex.crossReferences).length === 0) {
-      return 'No cross-references analyzed yet. Run analyze operation first.';
+  private analyzeCrossReferences(): CrossReference[] {
+    return Object.entries(this.codebaseIndex!.crossReferences)
+      .map(([file, imports]) => ({ file, imports }))
+      .sort((a, b) => b.imports.length - a.imports.length);
+  }
+
+  private formatCrossReferences(references: CrossReference[]): string {
+    if (references.length === 0) {
+      return 'No cross-references found in the analyzed codebase.';
     }
 
     const lines = ['🔗 Cross-Reference Analysis:', ''];
 
-    const sortedRefs = Object.entries(this.codebaseIndex.crossReferences)
-      .sort(([,a], [,b]) => b.length - a.length);
-
     lines.push('📊 Files with Most Dependencies:');
-    sortedRefs.slice(0, 10).forEach(([file, refs]) => {
-      lines.push(`  • ${file}: ${refs.length} references`);
+    references.slice(0, 10).forEach(({ file, imports }) => {
+      lines.push(`  • ${file}: ${imports.length} imports`);
     });
 
     return lines.join('\n');
   }
 
-  private generateCallGraph(): string {
-    if (!this.codebaseIndex) {
-      return 'No codebase has been analyzed yet.';
+  private formatCallGraph(graph: CallGraph, root?: string, depth?: number, format: GraphFormat = 'text'): string {
+    switch (format) {
+      case 'dot':
+        return toDot(graph, root ? `calls from ${root}` : 'call graph', graph.cycles);
+      case 'mermaid':
+        return toMermaid(graph, graph.cycles);
+      case 'json':
+        return JSON.stringify(graph, null, 2);
     }
 
-    const lines = ['📈 Call Graph Analysis:', ''];
+    const lines = [`📈 Call Graph: ${graph.nodes.length} functions, ${graph.edges.length} call relationships`, ''];
 
-    // Simplified call graph based on cross-references
-    const callGraph = this.buildSimpleCallGraph();
-    
-    lines.push('🔄 Function Call Relationships:');
-    for (const [caller, callees] of Object.entries(callGraph)) {
-      if (callees.length > 0) {
-        lines.push(`  ${caller} →`);
-        callees.slice(0, 5).forEach(callee => lines.push(`    • ${callee}`));
+    if (root) {
+      lines.push(`🌳 Calls from ${root} (depth ${depth ?? 3}):`);
+      const expanded = new Set<string>();
+      for (const id of graph.roots) {
+        this.formatCallTree(graph, id, 1, expanded, lines);
+      }
+    } else {
+      lines.push('🔄 Function Call Relationships:');
+      for (const node of graph.nodes) {
+        const callees = graph.edges.filter(edge => edge.from === node.id);
+        if (callees.length === 0) continue;
+
+        lines.push(`  ${node.name} (${node.file}:${node.line}) →`);
+        callees.slice(0, 5).forEach(edge => lines.push(`    • ${this.formatCallee(graph, edge.to, edge.calls)}`));
         if (callees.length > 5) {
           lines.push(`    ... and ${callees.length - 5} more`);
         }
       }
     }
 
+    if (graph.cycles.length > 0) {
+      lines.push('', `🔁 Recursive Call Cycles (${graph.cycles.length}):`);
+      for (const cycle of graph.cycles) {
+        const path = shortestCycle(graph, cycle);
+        const names = path.map(id => graph.nodes.find(node => node.id === id)!.name);
+        const others = cycle.length - (path.length - 1);
+        lines.push(`  • ${names.join(' → ')}${others > 0 ? ` (+${others} more in the cycle)` : ''}`);
+      }
+    }
+
     return lines.join('\n');
   }
 
+  private formatCallTree(graph: CallGraph, id: string, level: number, expanded: Set<string>, lines: string[]): void {
+    const indent = '  '.repeat(level);
+    const node = graph.nodes.find(candidate => candidate.id === id)!;
+
+    // Functions are expanded once; later occurrences (including recursion) are marked
+    if (expanded.has(id)) {
+      lines.push(`${indent}${node.name} ↻`);
+      return;
+    }
+    expanded.add(id);
+
+    lines.push(`${indent}${node.name} (${node.file}:${node.line})`);
+    for (const edge of graph.edges.filter(candidate => candidate.from === id)) {
+      this.formatCallTree(graph, edge.to, level + 1, expanded, lines);
+    }
+  }
+
+  private formatCallee(graph: CallGraph, id: string, calls: number): string {
+    const node = graph.nodes.find(candidate => candidate.id === id)!;
+    return `${node.name} (${node.file}:${node.line})${calls > 1 ? ` ×${calls}` : ''}`;
+  }
+
+  // Symbols are resolved on demand for JS/TS files; files that do not parse are left out
+  private getSymbolTable(): SymbolTable {
+    if (!this.symbolTable) {
+      this.symbolTable = new SymbolTable(this.getModuleResolver());
+      for (const file of this.codebaseIndex!.files) {
+        if (!BABEL_EXTENSIONS.includes(file.extension)) continue;
+        try {
+          this.symbolTable.addFile(file.path, parseSource(file.content), file.content);
+        } catch {
+          continue;
+        }
+      }
+    }
+    return this.symbolTable;
+  }
+
+  private getModuleResolver(): ModuleResolver {
+    this.moduleResolver ??= new ModuleResolver(this.currentPath!);
+    return this.moduleResolver;
+  }
+
+  private getModuleGraph(): ModuleGraph {
+    this.moduleGraph ??= buildModuleGraph(this.getModuleResolver(), this.codebaseIndex!.files.map(file => ({
+      path: file.path,
+      imports: this.fileAnalyses.get(file.path)?.imports ?? []
+    })));
+    return this.moduleGraph;
+  }
+
   // ==================== HELPER METHODS ====================
 
   private getDirectoryNames(): string[] {
@@ -1595,43 +1887,6 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return count;
   }
 
-  private calculateFunctionComplexity(content: string, functionName: string): number {
-    // Simplified cyclomatic complexity calculation
-    const functionRegex = new RegExp(`function\\s+${functionName}\\s*\\([^)]*\\)\\s*{([^}]*)}`, 'gs');
-    const match = functionRegex.exec(content);
-    
-    if (!match) return 1;
-    
-    const functionBody = match[1];
-    const complexityPatterns = [
-      /if\s*\(/g, /else\s+if/g, /while\s*\(/g, /for\s*\(/g,
-      /switch\s*\(/g, /case\s+/g, /catch\s*\(/g, /\&\&/g, /\|\|/g
-    ];
-    
-    let complexity = 1; // Base complexity
-    for (const pattern of complexityPatterns) {
-      const matches = functionBody.match(pattern);
-      if (matches) complexity += matches.length;
-    }
-    
-    return complexity;
-  }
-
-  private extractReturnType(content: string, functionName: string): string | undefined {
-    const typeMatch = content.match(new RegExp(`function\\s+${functionName}\\s*\\([^)]*\\)\\s*:\\s*(\\w+)`, 'i'));
-    return typeMatch ? typeMatch[1] : undefined;
-  }
-
-  private extractClassMethods(classBody: string): string[] {
-    const methodMatches = classBody.matchAll(/(?:public|private|protected)?\s*(\w+)\s*\(/g);
-    return Array.from(methodMatches, match => match[1]);
-  }
-
-  private extractClassProperties(classBody: string): string[] {
-    const propertyMatches = classBody.matchAll(/(?:public|private|protected)?\s*(\w+)\s*[:=]/g);
-    return Array.from(propertyMatches, match => match[1]);
-  }
-
   private detectCodeSmells(codeSmells: string[], recommendations: string[]): void {
     if (!this.codebaseIndex) return;
 
@@ -1658,10 +1913,23 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
 
     // Duplicate code patterns
     const duplicates = this.findDuplicatePatterns();
-    if (duplicates > 3) {
-      codeSmells.push(`${duplicates} potential code duplication patterns found`);
+    if (duplicates > 0) {
+      codeSmells.push(`${duplicates} groups of duplicated functions found`);
       recommendations.push('Extract common functionality into reusable functions or modules');
     }
+
+    // Circular imports and imports across forbidden layers
+    const moduleGraph = this.getModuleGraph();
+    if (moduleGraph.cycles.length > 0) {
+      codeSmells.push(`${moduleGraph.cycles.length} circular import chains`);
+      recommendations.push('Break import cycles by moving shared code into a module both sides can depend on');
+    }
+
+    const violations = checkLayerRules(moduleGraph, this.architectureConfig.rules);
+    if (violations.length > 0) {
+      codeSmells.push(`${violations.length} imports break the configured layering rules`);
+      recommendations.push('Run the dependencies operation to see each layering violation');
+    }
   }
 
   private calculateMaintainabilityScore(avgComplexity: number, codeSmellCount: number): number {
@@ -1672,34 +1940,19 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return Math.max(0, Math.min(100, score));
   }
 
-  private extractImports(content: string): string[] {
-    const imports: string[] = [];
+  // Pattern-based import extraction for files the Babel parser cannot handle
+  private extractImports(content: string): ModuleImport[] {
+    const imports: ModuleImport[] = [];
     const importMatches = content.matchAll(/import\s+.*?\s+from\s+['"]([^'"]+)['"]/g);
     const requireMatches = content.matchAll(/require\s*\(\s*['"]([^'"]+)['"]\s*\)/g);
     
-    for (const match of importMatches) {
-      imports.push(match[1]);
-    }
-    for (const match of requireMatches) {
-      imports.push(match[1]);
+    for (const match of [...importMatches, ...requireMatches]) {
+      imports.push({ specifier: match[1], line: this.lineAt(content, match.index!) });
     }
     
     return imports;
   }
 
-  private extractFunctionCalls(content: string): string[] {
-    const calls: string[] = [];
-    const callMatches = content.matchAll(/(\w+)\s*\(/g);
-    
-    for (const match of callMatches) {
-      if (!['if', 'for', 'while', 'switch', 'catch'].includes(match[1])) {
-        calls.push(match[1]);
-      }
-    }
-    
-    return calls;
-  }
-
   private categorizeFunctions(): Record<string, number> {
     const categories: Record<string, number> = {};
     
@@ -1740,36 +1993,8 @@ export class CodebaseAnalyzer extends Tool<StringToolOutput, CodebaseAnalyzerOpt
     return hierarchies;
   }
 
-  private buildSimpleCallGraph(): Record<string, string[]> {
-    const callGraph: Record<string, string[]> = {};
-    
-    for (const func of this.codebaseIndex!.functions) {
-      const calls = this.codebaseIndex!.crossReferences[func.location] || [];
-      callGraph[func.name] = calls.filter(call => 
-        this.codebaseIndex!.functions.some(f => f.name === call)
-      );
-    }
-    
-    return callGraph;
-  }
-
   private findDuplicatePatterns(): number {
-    // Simplified duplicate detection
-    const codeLines = new Set<string>();
-    let duplicates = 0;
-    
-    for (const file of this.codebaseIndex!.files) {
-      const lines = file.content.split('\n').map(line => line.trim()).filter(line => line.length > 10);
-      
-      for (const line of lines) {
-        if (codeLines.has(line)) {
-          duplicates++;
-        } else {
-          codeLines.add(line);
-        }
-      }
-    }
-    
-    return duplicates;
+    const fragments = [...this.fileAnalyses.values()].flatMap(analysis => analysis.clones);
+    return detectClones(fragments, this.cloneDetectionConfig).length;
   }
 }
\ No newline at end of file
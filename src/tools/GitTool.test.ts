@@ -0,0 +1,182 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitTool, GitBlame, GitCommit, GitCommitSuggestions, GitIntegrationResult, GitStatus } from './GitTool.js';
+import { PermissionPolicy } from '../permissions.js';
+import { MockChatModel } from '../mock.js';
+import { DEFAULT_CONFIG } from '../config.js';
+import { ToolRunner, createTempDir, writeFile } from '../test/helpers.js';
+
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+}
+
+function write(file: string, content: string): void {
+  writeFile(repo, file, content);
+}
+
+function runner(tool: GitTool = new GitTool()): ToolRunner<GitTool> {
+  return new ToolRunner(tool, { repoPath: repo });
+}
+
+beforeEach(() => {
+  repo = createTempDir('git');
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.email', 'dev@example.com');
+  git('config', 'user.name', 'Dev');
+  write('notes.txt', 'one\ntwo\nthree\n');
+  git('add', '.');
+  git('commit', '-q', '-m', 'Initial commit');
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe('GitTool', () => {
+  it('reports staged, modified and untracked files', async () => {
+    write('notes.txt', 'one\ntwo\nthree\nfour\n');
+    write('new.txt', 'new\n');
+    write('staged.txt', 'staged\n');
+    git('add', 'staged.txt');
+
+    const status = await runner().result<GitStatus>({ operation: 'status' });
+
+    expect(status.branch).toBe('main');
+    expect(status.staged).toEqual(['staged.txt']);
+    expect(status.modified).toEqual(['notes.txt']);
+    expect(status.untracked).toEqual(['new.txt']);
+    expect(status.clean).toBe(false);
+  });
+
+  it('commits on a feature branch and attributes lines with blame', async () => {
+    const tool = runner();
+    await tool.result({ operation: 'create_branch', branch: 'feature' });
+    write('notes.txt', 'one\nTWO\nthree\n');
+    await tool.result({ operation: 'add', files: ['notes.txt'] });
+    await tool.result({ operation: 'commit', message: 'Shout the second line' });
+
+    const log = await tool.result<GitCommit[]>({ operation: 'log', lines: 1 });
+    expect(log[0].message).toBe('Shout the second line');
+
+    const blame = await tool.result<GitBlame>({ operation: 'blame', file: 'notes.txt', startLine: 1, endLine: 2 });
+    expect(blame.lines.map(line => [line.content, line.summary])).toEqual([
+      ['one', 'Initial commit'],
+      ['TWO', 'Shout the second line']
+    ]);
+  });
+
+  it('reads blame in a repository with SHA-256 object names', async () => {
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.mkdirSync(repo);
+    git('init', '-q', '--object-format=sha256', '-b', 'main');
+    git('config', 'user.email', 'dev@example.com');
+    git('config', 'user.name', 'Dev');
+    write('notes.txt', 'one\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Initial commit');
+
+    const blame = await runner().result<GitBlame>({ operation: 'blame', file: 'notes.txt' });
+    expect(blame.lines).toEqual([expect.objectContaining({ content: 'one', summary: 'Initial commit' })]);
+    expect(blame.lines[0].commit).toHaveLength(64);
+  });
+
+  it('returns both sides of each conflict and aborts the merge', async () => {
+    git('checkout', '-q', '-b', 'feature');
+    write('notes.txt', 'one\nfeature\nthree\n');
+    git('commit', '-q', '-am', 'Feature change');
+    git('checkout', '-q', 'main');
+    write('notes.txt', 'one\nmain\nthree\n');
+    git('commit', '-q', '-am', 'Main change');
+
+    const tool = runner();
+    const merge = await tool.result<GitIntegrationResult>({ operation: 'merge', branch: 'feature' });
+
+    expect(merge.status).toBe('conflicts');
+    expect(merge.conflicts).toHaveLength(1);
+    expect(merge.conflicts[0].file).toBe('notes.txt');
+    expect(merge.conflicts[0].hunks[0].ours).toEqual({ label: 'HEAD', lines: ['main'] });
+    expect(merge.conflicts[0].hunks[0].theirs).toEqual({ label: 'feature', lines: ['feature'] });
+
+    const abort = await tool.result<GitIntegrationResult>({ operation: 'abort' });
+    expect(abort.status).toBe('aborted');
+    expect(fs.readFileSync(path.join(repo, 'notes.txt'), 'utf-8')).toBe('one\nmain\nthree\n');
+  });
+
+  it('refuses branches and commits that git would read as options', async () => {
+    const tool = runner();
+
+    expect(await tool.run({ operation: 'rebase', branch: '--exec=touch pwned' })).toEqual({
+      operation: 'rebase',
+      error: expect.stringContaining('must not start with "-"')
+    });
+    expect(await tool.run({ operation: 'cherry_pick', commitHash: '--continue' })).toHaveProperty('error');
+    expect(fs.existsSync(path.join(repo, 'pwned'))).toBe(false);
+  });
+
+  it('refuses mutating operations the policy does not allow', async () => {
+    const config = { allow: [], protectedBranches: ['main'] };
+    write('notes.txt', 'changed\n');
+    git('add', 'notes.txt');
+
+    const assumeYes = new PermissionPolicy({ config, assumeYes: true, interactive: false });
+    const yesTool = runner(new GitTool({ authorize: action => assumeYes.authorize(action) }));
+    const protectedCommit = await yesTool.run({ operation: 'commit', message: 'Direct to main' });
+    expect(protectedCommit).toEqual({ operation: 'commit', error: expect.stringContaining('protected branch "main"') });
+
+    // Unstaging is allowed on protected branches
+    expect(await yesTool.run({ operation: 'reset', files: ['notes.txt'] })).toHaveProperty('result');
+
+    const nonInteractive = new PermissionPolicy({ config, interactive: false });
+    const tool = runner(new GitTool({ authorize: action => nonInteractive.authorize(action) }));
+    const add = await tool.run({ operation: 'add', files: ['notes.txt'] });
+    expect(add).toEqual({ operation: 'add', error: expect.stringContaining('git add notes.txt') });
+
+    // Read-only operations are never gated
+    expect(await tool.run({ operation: 'status' })).toHaveProperty('result');
+  });
+
+  it('suggests one commit message per unrelated area', async () => {
+    git('checkout', '-q', '-b', 'feature/PROJ-7-search');
+    write('src/search/index.ts', 'export const search = 1;\n');
+    write('src/memory/store.ts', 'export const store = 1;\n');
+    git('add', '.');
+
+    const llm = new MockChatModel('mock', {
+      responses: [
+        { match: 'src/search', answer: '{"type": "feat", "scope": "x", "subject": "add search", "body": ""}' },
+        { match: 'src/memory', answer: '{"type": "fix", "scope": "x", "subject": "keep the store.", "body": "Why it matters."}' }
+      ]
+    });
+    const tool = runner(new GitTool({ llm, commitMessages: DEFAULT_CONFIG.commitMessages }));
+    const suggestions = await tool.result<GitCommitSuggestions>({ operation: 'suggest_commit_message' });
+
+    expect(suggestions.ticket).toBe('PROJ-7');
+    expect(suggestions.suggestions.map(suggestion => [suggestion.files, suggestion.message])).toEqual(expect.arrayContaining([
+      [['src/search/index.ts'], 'feat(search): PROJ-7 add search'],
+      [['src/memory/store.ts'], 'fix(memory): PROJ-7 keep the store\n\nWhy it matters.']
+    ]));
+  });
+
+  it('keeps both paths of a staged rename in the same suggestion', async () => {
+    write('src/search/index.ts', 'export const search = 1;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add search');
+    git('mv', 'src/search/index.ts', 'src/search/query.ts');
+    write('docs/search.md', '# Search\n');
+    git('add', '.');
+
+    const llm = new MockChatModel('mock', {
+      responses: [{ match: '.', answer: '{"type": "refactor", "subject": "rename the search module", "body": ""}' }]
+    });
+    const tool = runner(new GitTool({ llm, commitMessages: DEFAULT_CONFIG.commitMessages }));
+    const suggestions = await tool.result<GitCommitSuggestions>({ operation: 'suggest_commit_message' });
+
+    expect(suggestions.suggestions.map(suggestion => suggestion.files)).toEqual(expect.arrayContaining([
+      ['src/search/index.ts', 'src/search/query.ts'],
+      ['docs/search.md']
+    ]));
+  });
+});
@@ -1,33 +1,225 @@
-import { Tool, StringToolOutput, ToolEmitter, ToolInput, BaseToolOptions, BaseToolRunOptions } from 'beeai-framework/tools/base';
+import { Tool, ToolEmitter, ToolInput, BaseToolOptions, BaseToolRunOptions } from 'beeai-framework/tools/base';
 import { z } from 'zod';
-import simpleGit, { SimpleGit } from 'simple-git';
+import simpleGit, { LogResult, SimpleGit, StatusResult } from 'simple-git';
 import { Emitter } from 'beeai-framework/emitter/emitter';
+import { ChatModel } from 'beeai-framework/backend/chat';
+import { UserMessage } from 'beeai-framework/backend/message';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormattedToolOutput, OutputFormat, formatError, formatResult, outputFormatSchema } from './output.js';
+import { Authorizer, isMutatingOperation } from '../permissions.js';
+import { CommitMessageConfig, DEFAULT_CONFIG } from '../config.js';
 
-interface GitToolOptions extends BaseToolOptions {}
+interface GitToolOptions extends BaseToolOptions {
+  authorize?: Authorizer; // Asked before every operation that changes the repository
+  llm?: ChatModel; // Writes suggest_commit_message suggestions
+  commitMessages?: CommitMessageConfig;
+}
 
-export class GitTool extends Tool<StringToolOutput, GitToolOptions> {
+interface StagedChange {
+  path: string;
+  from?: string; // Old path of a rename
+}
+
+const COMMIT_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'];
+
+// Staged diff shown to the LLM per suggestion; the stat always lists every file
+const MAX_SUGGESTION_DIFF_CHARS = 12000;
+
+// What the LLM is asked to reply with; the convention is applied afterwards
+const CommitDraftSchema = z.object({
+  type: z.string().optional(),
+  scope: z.string().optional(),
+  subject: z.string().min(1),
+  body: z.string().optional()
+});
+
+// Fields of one commit in `git log -L` output; the line-range diff follows each record
+const LINE_LOG_FORMAT = '%x1e%H%x1f%an%x1f%ae%x1f%aI%x1f%D%x1f%s%x1f%b%x1f';
+
+// JSON results of the operations (outputFormat: 'json')
+
+/** `status` */
+export interface GitStatus {
+  branch: string | null;
+  tracking: string | null;
+  ahead: number;
+  behind: number;
+  staged: string[];
+  modified: string[];
+  untracked: string[];
+  conflicted: string[];
+  files: Array<{ path: string; from?: string; index: string; workingDir: string }>; // Porcelain status codes
+  clean: boolean;
+}
+
+export interface GitDiffFile {
+  file: string;
+  insertions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+/** `diff`, `diff_staged` and `diff_unstaged` */
+export interface GitDiff {
+  staged: boolean;
+  files: GitDiffFile[];
+  diff: string; // Unified diff
+}
+
+/** `log` */
+export interface GitCommit {
+  hash: string;
+  date: string;
+  message: string;
+  body: string;
+  refs: string;
+  author: { name: string; email: string };
+}
+
+/** `log_line_range`, with the diff of the followed lines in each commit */
+export interface GitLineCommit extends GitCommit {
+  diff: string;
+}
+
+export interface GitLineHistory {
+  file: string;
+  range: string; // "start,end" or ":functionName", as passed to git log -L
+  commits: GitLineCommit[];
+}
+
+export interface GitBlameLine {
+  line: number;
+  content: string;
+  commit: string;
+  author: string;
+  email: string;
+  date: string; // Author date, ISO 8601
+  summary: string; // Subject of the commit
+}
+
+/** `blame` */
+export interface GitBlame {
+  file: string;
+  lines: GitBlameLine[];
+}
+
+/** `stash_list`, and the entry created by `stash_push` */
+export interface GitStashEntry {
+  index: number;
+  ref: string; // e.g. "stash@{0}"
+  hash: string;
+  date: string;
+  message: string;
+}
+
+// Sides are as git writes them: during a rebase "ours" is the branch being rebased onto
+export interface GitConflictSide {
+  label: string; // Text after the conflict marker, e.g. "HEAD" or a branch name
+  lines: string[];
+}
+
+export interface GitConflictHunk {
+  startLine: number; // Lines of the <<<<<<< and >>>>>>> markers, 1-based
+  endLine: number;
+  ours: GitConflictSide;
+  base?: GitConflictSide; // Only with merge.conflictStyle diff3 or zdiff3
+  theirs: GitConflictSide;
+}
+
+export interface GitConflictFile {
+  file: string;
+  status: string; // Porcelain code, e.g. "UU" (both modified) or "DU" (deleted by us)
+  hunks: GitConflictHunk[]; // Empty when git wrote no markers, e.g. for deletions or binary files
+}
+
+/** `merge`, `rebase`, `cherry_pick`, `stash_pop`, `abort` and `continue` */
+export interface GitIntegrationResult {
+  operation: 'merge' | 'rebase' | 'cherry_pick' | 'stash_pop'; // For abort/continue, the operation in progress
+  status: 'completed' | 'conflicts' | 'aborted';
+  head: string | null; // HEAD commit afterwards
+  output: string; // Git's own message
+  conflicts: GitConflictFile[];
+}
+
+/** `commit` */
+export interface GitCommitResult {
+  commit: string;
+  branch: string;
+  message: string;
+  changes: number;
+  insertions: number;
+  deletions: number;
+}
+
+export interface GitCommitSuggestion {
+  area: string; // Directory the files have in common, "." for the repository root
+  files: string[]; // Both paths of a rename, so committing them records the removal too
+  message: string; // Subject, blank line and body, ready for git commit
+  subject: string;
+  body: string;
+  type?: string; // Conventional Commits only
+  scope?: string;
+}
+
+/** `suggest_commit_message` */
+export interface GitCommitSuggestions {
+  branch: string | null;
+  ticket: string | null; // Found in the branch name with commitMessages.ticketPattern
+  convention: CommitMessageConfig['convention'];
+  suggestions: GitCommitSuggestion[]; // One per area when the staged changes touch unrelated areas
+}
+
+/** `show` */
+export interface GitShow {
+  ref: string;
+  output: string;
+}
+
+/** `add`, `reset`, `init`, `create_branch` and `checkout` */
+export interface GitChange {
+  operation: string;
+  files?: string[]; // Reset without files unstages everything
+  branch?: string;
+  path?: string;
+}
+
+export class GitTool extends Tool<FormattedToolOutput, GitToolOptions> {
   name = 'git';
-  description = 'Git version control operations including status, diff, commit, branch management, and more';
+  description = 'Git version control operations including status, diff, commit with suggested messages, branch management, stash, merge, rebase, cherry-pick, blame and the history of files or line ranges';
   
-  readonly emitter: ToolEmitter<ToolInput<this>, StringToolOutput>;
+  readonly emitter: ToolEmitter<ToolInput<this>, FormattedToolOutput>;
 
   constructor(options?: GitToolOptions) {
     super(options);
-    this.emitter = new Emitter();
+    this.emitter = Emitter.root.child({
+      namespace: ['tool', 'git'],
+      creator: this
+    });
   }
 
   inputSchema() {
     return z.object({
       operation: z.enum([
         'status', 'diff', 'diff_staged', 'diff_unstaged', 'log', 
-        'add', 'commit', 'init', 'show', 'create_branch', 'checkout', 'reset'
-      ]).describe('The Git operation to perform'),
+        'add', 'commit', 'init', 'show', 'create_branch', 'checkout', 'reset',
+        'blame', 'log_file', 'log_line_range',
+        'stash_push', 'stash_list', 'stash_pop', 'merge', 'rebase', 'cherry_pick', 'abort', 'continue',
+        'suggest_commit_message'
+      ]).describe('The Git operation to perform; abort and continue apply to the merge, rebase or cherry-pick in progress'),
       repoPath: z.string().optional().describe('Path to the Git repository (defaults to current directory)'),
-      files: z.array(z.string()).optional().describe('Files to operate on (for add, reset operations)'),
-      message: z.string().optional().describe('Commit message (for commit operation)'),
-      branch: z.string().optional().describe('Branch name (for create_branch, checkout operations)'),
-      commitHash: z.string().optional().describe('Commit hash (for show operation)'),
-      lines: z.number().optional().describe('Number of log entries to show (for log operation)')
+      files: z.array(z.string()).optional().describe('Files to operate on (for add, reset, stash_push operations); commit only these files (for commit operation)'),
+      message: z.string().optional().describe('Commit or stash message (for commit, stash_push operations)'),
+      branch: z.string().optional().describe('Branch name (for create_branch, checkout, merge, rebase operations)'),
+      commitHash: z.string().optional().describe('Commit hash (for show, cherry_pick operations)'),
+      includeUntracked: z.boolean().optional().describe('Stash untracked files too (for stash_push operation)'),
+      stashIndex: z.number().optional().describe('Stash entry to pop (default: 0, the latest)'),
+      lines: z.number().optional().describe('Number of log entries to show (for log, log_file, log_line_range operations)'),
+      file: z.string().optional().describe('File for blame, log_file and log_line_range, relative to the repository'),
+      startLine: z.number().optional().describe('First line of the range (for blame, log_line_range operations)'),
+      endLine: z.number().optional().describe('Last line of the range (defaults to startLine)'),
+      functionName: z.string().optional().describe('Function whose lines log_line_range follows instead of a line range (git log -L :name:file)'),
+      outputFormat: outputFormatSchema
     });
   }
 
@@ -49,92 +241,690 @@ export class GitTool extends Tool<StringToolOutput, GitToolOptions> {
   protected async _run(
     input: ToolInput<this>, 
     options: Partial<BaseToolRunOptions>
-  ): Promise<StringToolOutput> {
-    const { operation, repoPath, files, message, branch, commitHash, lines } = input;
+  ): Promise<FormattedToolOutput> {
+    const {
+      operation, repoPath, files, message, branch, commitHash, lines, file, startLine, endLine, functionName,
+      includeUntracked, stashIndex, outputFormat
+    } = input;
+    const fail = (error: string) => formatError(outputFormat, operation, error);
+    const changed = (change: Omit<GitChange, 'operation'>, text: string) =>
+      formatResult<GitChange>(outputFormat, operation, { operation, ...change }, () => text);
+
     try {
       const git = this.getGit(repoPath);
 
+      // Branch names and commits come from the model; a leading dash would make git read them as options
+      const ref = operation === 'cherry_pick' ? commitHash : operation === 'merge' || operation === 'rebase' ? branch : undefined;
+      if (ref?.startsWith('-')) {
+        return fail(`Invalid ${operation === 'cherry_pick' ? 'commit' : 'branch'} "${ref}": it must not start with "-"`);
+      }
+
+      if (this.options.authorize && isMutatingOperation(this.name, operation)) {
+        // Without a command (missing arguments, nothing in progress) the operation fails below
+        const command = await this.getCommand(git, input);
+        const refusal = command && await this.options.authorize({
+          tool: this.name,
+          operation,
+          command: command.map(arg => /^[\w@{}\/.:=+-]+$/.test(arg) ? arg : JSON.stringify(arg)).join(' '),
+          branch: await this.getCurrentBranch(git)
+        });
+        if (refusal) {
+          return fail(refusal);
+        }
+      }
+
       switch (operation) {
         case 'status':
           const status = await git.status();
-          return new StringToolOutput(this.formatStatus(status));
+          return formatResult(outputFormat, operation, this.toStatus(status), status => this.formatStatus(status));
 
         case 'diff':
           const diff = await git.diff();
-          return new StringToolOutput(diff || 'No differences found');
+          return formatResult(outputFormat, operation, this.toDiff(diff, false), () => diff || 'No differences found');
 
         case 'diff_staged':
           const diffStaged = await git.diff(['--cached']);
-          return new StringToolOutput(diffStaged || 'No staged changes found');
+          return formatResult(outputFormat, operation, this.toDiff(diffStaged, true), () => diffStaged || 'No staged changes found');
 
         case 'diff_unstaged':
           const diffUnstaged = await git.diff();
-          return new StringToolOutput(diffUnstaged || 'No unstaged changes found');
+          return formatResult(outputFormat, operation, this.toDiff(diffUnstaged, false), () => diffUnstaged || 'No unstaged changes found');
 
         case 'log':
           const logCount = lines || 10;
           const log = await git.log({ maxCount: logCount });
-          return new StringToolOutput(this.formatLog(log));
+          return formatResult(outputFormat, operation, this.toCommits(log), commits => this.formatLog(commits));
 
         case 'add':
           if (!files || files.length === 0) {
-            return new StringToolOutput('Error: No files specified for add operation');
+            return fail('No files specified for add operation');
           }
           await git.add(files);
-          return new StringToolOutput(`Added files: ${files.join(', ')}`);
+          return changed({ files }, `Added files: ${files.join(', ')}`);
 
         case 'commit':
           if (!message) {
-            return new StringToolOutput('Error: Commit message is required');
+            return fail('Commit message is required');
           }
-          const commit = await git.commit(message);
-          return new StringToolOutput(`Committed: ${commit.commit} - ${message}`);
+          const commit = files && files.length > 0 ? await git.commit(message, files) : await git.commit(message);
+          return formatResult<GitCommitResult>(outputFormat, operation, {
+            commit: commit.commit,
+            branch: commit.branch,
+            message,
+            ...commit.summary
+          }, result => `Committed: ${result.commit} - ${message}`);
 
         case 'init':
           await git.init();
-          return new StringToolOutput(`Initialized empty Git repository in ${repoPath || process.cwd()}`);
+          const repo = repoPath || process.cwd();
+          return changed({ path: repo }, `Initialized empty Git repository in ${repo}`);
 
         case 'show':
           const hash = commitHash || 'HEAD';
           const show = await git.show([hash]);
-          return new StringToolOutput(show);
+          return formatResult<GitShow>(outputFormat, operation, { ref: hash, output: show }, () => show);
 
         case 'create_branch':
           if (!branch) {
-            return new StringToolOutput('Error: Branch name is required');
+            return fail('Branch name is required');
           }
           await git.checkoutLocalBranch(branch);
-          return new StringToolOutput(`Created and switched to branch: ${branch}`);
+          return changed({ branch }, `Created and switched to branch: ${branch}`);
 
         case 'checkout':
           if (!branch) {
-            return new StringToolOutput('Error: Branch name is required');
+            return fail('Branch name is required');
           }
           await git.checkout(branch);
-          return new StringToolOutput(`Switched to branch: ${branch}`);
+          return changed({ branch }, `Switched to branch: ${branch}`);
 
         case 'reset':
           if (files && files.length > 0) {
             await git.reset(['HEAD', ...files]);
-            return new StringToolOutput(`Reset files: ${files.join(', ')}`);
+            return changed({ files }, `Reset files: ${files.join(', ')}`);
           } else {
             await git.reset(['HEAD']);
-            return new StringToolOutput('Reset all staged changes');
+            return changed({}, 'Reset all staged changes');
           }
 
+        case 'blame':
+          if (!file) {
+            return fail('File is required for blame operation');
+          }
+          const range = startLine ? ['-L', `${startLine},${endLine ?? startLine}`] : [];
+          const porcelain = await git.raw(['blame', '--porcelain', ...range, '--', file]);
+          return formatResult<GitBlame>(outputFormat, operation, { file, lines: this.parseBlame(porcelain) }, blame => this.formatBlame(blame));
+
+        case 'log_file':
+          if (!file) {
+            return fail('File is required for log_file operation');
+          }
+          // Logging a single file adds --follow, so the history continues across renames
+          const fileLog = await git.log({ file, maxCount: lines || 10 });
+          return formatResult(outputFormat, operation, this.toCommits(fileLog), commits => commits.length > 0
+            ? this.formatLog(commits)
+            : `No commits found for ${file}`);
+
+        case 'log_line_range':
+          if (!file || !(startLine || functionName)) {
+            return fail('File and a startLine or functionName are required for log_line_range operation');
+          }
+          const lineRange = functionName ? `:${functionName}` : `${startLine},${endLine ?? startLine}`;
+          const lineLog = await git.raw(['log', `-L${lineRange}:${file}`, `--format=${LINE_LOG_FORMAT}`, '-n', String(lines || 10)]);
+          return formatResult<GitLineHistory>(outputFormat, operation, {
+            file,
+            range: lineRange,
+            commits: this.parseLineLog(lineLog)
+          }, history => this.formatLineHistory(history));
+
+        case 'stash_push':
+          const stashArgs = ['stash', 'push', ...(includeUntracked ? ['--include-untracked'] : []), ...(message ? ['-m', message] : [])];
+          const before = (await git.stashList()).total;
+          await git.raw(files && files.length > 0 ? [...stashArgs, '--', ...files] : stashArgs);
+          const stashes = this.toStashEntries(await git.stashList());
+          const created = stashes.length > before ? stashes[0] : null;
+          return formatResult(outputFormat, operation, created, entry => entry
+            ? `Saved working directory and index state ${entry.ref}: ${entry.message}`
+            : 'No local changes to save');
+
+        case 'stash_list':
+          return formatResult(outputFormat, operation, this.toStashEntries(await git.stashList()), entries => entries.length > 0
+            ? entries.map(entry => `${entry.ref}: ${entry.message}`).join('\n')
+            : 'No stash entries');
+
+        case 'stash_pop':
+          return this.integrate(repoPath, outputFormat, 'stash_pop', ['stash', 'pop', `stash@{${stashIndex ?? 0}}`]);
+
+        case 'merge':
+          if (!branch) {
+            return fail('Branch name is required');
+          }
+          return this.integrate(repoPath, outputFormat, 'merge', ['merge', '--no-edit', '--end-of-options', branch]);
+
+        case 'rebase':
+          if (!branch) {
+            return fail('Branch name is required');
+          }
+          return this.integrate(repoPath, outputFormat, 'rebase', ['rebase', '--end-of-options', branch]);
+
+        case 'cherry_pick':
+          if (!commitHash) {
+            return fail('Commit hash is required for cherry_pick operation');
+          }
+          return this.integrate(repoPath, outputFormat, 'cherry_pick', ['cherry-pick', '--end-of-options', commitHash]);
+
+        case 'abort':
+        case 'continue':
+          const inProgress = await this.getOperationInProgress(git);
+          if (!inProgress) {
+            return fail('No merge, rebase or cherry-pick in progress');
+          }
+          return this.integrate(repoPath, outputFormat, inProgress, [inProgress === 'cherry_pick' ? 'cherry-pick' : inProgress, `--${operation}`]);
+
+        case 'suggest_commit_message':
+          if (!this.options.llm) {
+            return fail('suggest_commit_message needs an LLM provider');
+          }
+          const staged = this.parseNameStatus(await git.diff(['--cached', '--name-status', '-M', '-z']));
+          if (staged.length === 0) {
+            return fail('No staged changes. Stage files with the add operation first.');
+          }
+          const suggestions = await this.suggestCommitMessages(git, staged);
+          return formatResult(outputFormat, operation, suggestions, suggestions => this.formatCommitSuggestions(suggestions));
+
         default:
-          return new StringToolOutput(`Error: Unknown operation: ${operation}`);
+          return fail(`Unknown operation: ${operation}`);
       }
     } catch (error) {
       throw this.toError(error as Error, { input, options });
     }
   }
 
-  private formatStatus(status: any): string {
+  private toStatus(status: StatusResult): GitStatus {
+    return {
+      branch: status.current,
+      tracking: status.tracking,
+      ahead: status.ahead,
+      behind: status.behind,
+      staged: status.staged,
+      modified: status.modified,
+      untracked: status.not_added,
+      conflicted: status.conflicted,
+      files: status.files.map(file => ({
+        path: file.path,
+        from: file.from,
+        index: file.index,
+        workingDir: file.working_dir
+      })),
+      clean: status.isClean()
+    };
+  }
+
+  private toDiff(diff: string, staged: boolean): GitDiff {
+    const files: GitDiffFile[] = [];
+    let current: GitDiffFile | null = null;
+
+    for (const line of diff.split('\n')) {
+      const header = line.match(/^diff --git a\/.* b\/(.*)$/);
+      if (header) {
+        current = { file: header[1], insertions: 0, deletions: 0, binary: false };
+        files.push(current);
+      } else if (!current || line.startsWith('+++') || line.startsWith('---')) {
+        continue;
+      } else if (line.startsWith('Binary files')) {
+        current.binary = true;
+      } else if (line.startsWith('+')) {
+        current.insertions++;
+      } else if (line.startsWith('-')) {
+        current.deletions++;
+      }
+    }
+
+    return { staged, files, diff };
+  }
+
+  private toCommits(log: LogResult): GitCommit[] {
+    return log.all.map(commit => ({
+      hash: commit.hash,
+      date: commit.date,
+      message: commit.message,
+      body: commit.body,
+      refs: commit.refs,
+      author: { name: commit.author_name, email: commit.author_email }
+    }));
+  }
+
+  /**
+   * Runs a command that combines histories. When it stops on conflicts, the
+   * result lists each conflicted file with both sides of every hunk.
+   */
+  private async integrate(
+    repoPath: string | undefined,
+    outputFormat: OutputFormat | undefined,
+    operation: GitIntegrationResult['operation'],
+    args: string[]
+  ): Promise<FormattedToolOutput> {
+    const git = this.getGit(repoPath);
+    const aborting = args[1] === '--abort';
+    let output: string;
+    let failure: unknown = null;
+
+    try {
+      // Continuing must not wait for a commit message in an editor
+      const editorless = simpleGit({ baseDir: repoPath || process.cwd(), unsafe: { allowUnsafeEditor: true } });
+      output = await editorless.raw(['-c', 'core.editor=true', ...args]);
+    } catch (error) {
+      output = (error as Error).message;
+      failure = error;
+    }
+
+    // Git exits non-zero on conflicts, which simple-git only reports when nothing was written to stdout
+    const conflicted = (await git.status()).conflicted.length > 0;
+    if (failure && !conflicted) {
+      throw failure;
+    }
+    const status: GitIntegrationResult['status'] = conflicted ? 'conflicts' : aborting ? 'aborted' : 'completed';
+
+    const result: GitIntegrationResult = {
+      operation,
+      status,
+      head: await git.revparse(['HEAD']).catch(() => null),
+      output: output.trim(),
+      conflicts: status === 'conflicts' ? await this.getConflicts(git) : []
+    };
+    return formatResult(outputFormat, operation, result, result => this.formatIntegration(result));
+  }
+
+  // Also names a branch without commits yet; null on a detached HEAD or outside a repository
+  private async getCurrentBranch(git: SimpleGit): Promise<string | null> {
+    return git.raw(['symbolic-ref', '--short', 'HEAD']).then(name => name.trim() || null, () => null);
+  }
+
+  private get commitMessageConfig(): CommitMessageConfig {
+    return this.options.commitMessages ?? DEFAULT_CONFIG.commitMessages;
+  }
+
+  private async suggestCommitMessages(git: SimpleGit, staged: StagedChange[]): Promise<GitCommitSuggestions> {
+    const { convention, ticketPattern } = this.commitMessageConfig;
+    const branch = await this.getCurrentBranch(git);
+    const ticket = branch && ticketPattern ? branch.match(new RegExp(ticketPattern))?.[0] ?? null : null;
+    // A rename goes to the area of its new path
+    const renamedFrom = new Map(staged.filter(change => change.from).map(change => [change.path, change.from!]));
+    const groups = this.groupByArea(staged.map(change => change.path));
+
+    const suggestions: GitCommitSuggestion[] = [];
+    for (const group of groups) {
+      const files = group.files.flatMap(file => renamedFrom.has(file) ? [renamedFrom.get(file)!, file] : [file]);
+      const stat = await git.diff(['--cached', '-M', '--stat', '--', ...files]);
+      const diff = await git.diff(['--cached', '-M', '--', ...files]);
+      const draft = await this.draftCommitMessage(group.files, stat, diff);
+      // Split suggestions are scoped by their area, so the messages tell them apart
+      const scope = groups.length > 1 && group.area !== '.' ? path.posix.basename(group.area) : draft.scope;
+      suggestions.push({ area: group.area, files, ...this.applyConvention(draft, scope, ticket) });
+    }
+
+    return { branch, ticket, convention, suggestions };
+  }
+
+  // `git diff --name-status -z`: a status, then the path, or the old and new path of a rename or copy
+  private parseNameStatus(output: string): StagedChange[] {
+    const fields = output.split('\0');
+    const changes: StagedChange[] = [];
+
+    for (let i = 0; i + 1 < fields.length;) {
+      const status = fields[i++];
+      if (status.startsWith('R')) {
+        changes.push({ from: fields[i], path: fields[i + 1] });
+        i += 2;
+      } else {
+        changes.push({ path: fields[status.startsWith('C') ? i + 1 : i] });
+        i += status.startsWith('C') ? 2 : 1;
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Groups files by the first directory below the one they all share, so that
+   * changes to unrelated areas get their own commits. Files directly in the
+   * shared directory (docs, package.json, ...) go with the largest group.
+   */
+  private groupByArea(files: string[]): Array<{ area: string; files: string[] }> {
+    const directories = files.map(file => path.posix.dirname(file).split('/').filter(part => part !== '.'));
+    const nested = directories.filter(parts => parts.length > 0);
+    let common = nested[0] ?? [];
+    for (const parts of nested.slice(1)) {
+      let length = 0;
+      while (length < common.length && length < parts.length && common[length] === parts[length]) length++;
+      common = common.slice(0, length);
+    }
+
+    const groups = new Map<string, string[]>();
+    const shared: string[] = [];
+    files.forEach((file, index) => {
+      const next = directories[index][common.length];
+      if (!next) {
+        shared.push(file);
+        return;
+      }
+      const area = [...common, next].join('/');
+      groups.set(area, [...(groups.get(area) ?? []), file]);
+    });
+
+    const result = [...groups.entries()].map(([area, files]) => ({ area, files }));
+    if (result.length === 0) {
+      return [{ area: common.join('/') || '.', files: shared }];
+    }
+    result.sort((a, b) => b.files.length - a.files.length);
+    result[0].files.push(...shared);
+    return result;
+  }
+
+  private async draftCommitMessage(files: string[], stat: string, diff: string): Promise<z.infer<typeof CommitDraftSchema>> {
+    const truncated = diff.length > MAX_SUGGESTION_DIFF_CHARS
+      ? `${diff.slice(0, MAX_SUGGESTION_DIFF_CHARS)}\n... (diff truncated)`
+      : diff;
+
+    const response = await this.options.llm!.create({
+      messages: [new UserMessage(`Write a git commit message for the staged changes below.
+
+Reply with a JSON object only: {"type": "...", "scope": "...", "subject": "...", "body": "..."}
+- type: one of ${COMMIT_TYPES.join(', ')}
+- scope: the part of the code that changed, in one lowercase word, or "" if there is none
+- subject: what the change does, in the imperative mood, without a trailing period, at most 72 characters
+- body: why the change was made, wrapped at 72 columns, or "" when the subject says it all
+
+Files:
+${files.join('\n')}
+
+${stat.trim()}
+
+${truncated}`)]
+    });
+
+    const text = response.getTextContent().trim();
+    const json = text.match(/\{[\s\S]*\}/);
+    if (json) {
+      try {
+        const draft = CommitDraftSchema.safeParse(JSON.parse(json[0]));
+        if (draft.success) {
+          return draft.data;
+        }
+      } catch {
+        // Not JSON after all; treated as a plain message below
+      }
+    }
+
+    // A plain-text reply is used as is: first line as the subject, the rest as the body
+    const [subject, ...body] = text.split('\n');
+    return { subject: subject || `Update ${files.join(', ')}`, body: body.join('\n').trim() };
+  }
+
+  private applyConvention(
+    draft: z.infer<typeof CommitDraftSchema>,
+    scope: string | undefined,
+    ticket: string | null
+  ): Pick<GitCommitSuggestion, 'message' | 'subject' | 'body' | 'type' | 'scope'> {
+    let subject = draft.subject.trim().replace(/\.$/, '');
+    const body = draft.body?.trim() ?? '';
+    if (ticket && !subject.includes(ticket)) {
+      subject = this.commitMessageConfig.convention === 'conventional' ? `${ticket} ${subject}` : `${ticket}: ${subject}`;
+    }
+
+    let suggestion: Pick<GitCommitSuggestion, 'subject' | 'body' | 'type' | 'scope'>;
+    if (this.commitMessageConfig.convention === 'conventional') {
+      const type = draft.type && COMMIT_TYPES.includes(draft.type.toLowerCase()) ? draft.type.toLowerCase() : 'chore';
+      const cleanScope = scope?.trim().toLowerCase() || undefined;
+      suggestion = { subject: `${type}${cleanScope ? `(${cleanScope})` : ''}: ${subject}`, body, type, scope: cleanScope };
+    } else {
+      suggestion = { subject: subject.charAt(0).toUpperCase() + subject.slice(1), body };
+    }
+
+    return { ...suggestion, message: suggestion.body ? `${suggestion.subject}\n\n${suggestion.body}` : suggestion.subject };
+  }
+
+  private formatCommitSuggestions({ suggestions }: GitCommitSuggestions): string {
+    if (suggestions.length === 1) {
+      return suggestions[0].message;
+    }
+
+    const sections = suggestions.map((suggestion, index) =>
+      `${index + 1}. ${suggestion.area} (${suggestion.files.join(', ')})\n\n` +
+      suggestion.message.split('\n').map(line => line && `   ${line}`).join('\n'));
+    return [
+      `The staged changes touch ${suggestions.length} unrelated areas. Consider one commit per area, committing the files of each:`,
+      ...sections
+    ].join('\n\n');
+  }
+
+  // The git command line a mutating operation runs, or null when it cannot run
+  private async getCommand(git: SimpleGit, input: ToolInput<this>): Promise<string[] | null> {
+    const { operation, files, message, branch, commitHash, includeUntracked, stashIndex } = input;
+    const paths = files && files.length > 0 ? files : null;
+
+    switch (operation) {
+      case 'add':
+        return paths && ['git', 'add', ...paths];
+      case 'commit':
+        return message ? ['git', 'commit', '-m', message, ...(paths ?? [])] : null;
+      case 'init':
+        return ['git', 'init'];
+      case 'create_branch':
+        return branch ? ['git', 'checkout', '-b', branch] : null;
+      case 'checkout':
+        return branch ? ['git', 'checkout', branch] : null;
+      case 'reset':
+        return ['git', 'reset', 'HEAD', ...(paths ?? [])];
+      case 'stash_push':
+        return [
+          'git', 'stash', 'push',
+          ...(includeUntracked ? ['--include-untracked'] : []),
+          ...(message ? ['-m', message] : []),
+          ...(paths ? ['--', ...paths] : [])
+        ];
+      case 'stash_pop':
+        return ['git', 'stash', 'pop', `stash@{${stashIndex ?? 0}}`];
+      case 'merge':
+        return branch ? ['git', 'merge', '--no-edit', '--end-of-options', branch] : null;
+      case 'rebase':
+        return branch ? ['git', 'rebase', '--end-of-options', branch] : null;
+      case 'cherry_pick':
+        return commitHash ? ['git', 'cherry-pick', '--end-of-options', commitHash] : null;
+      case 'abort':
+      case 'continue':
+        const inProgress = await this.getOperationInProgress(git).catch(() => null);
+        return inProgress && ['git', inProgress === 'cherry_pick' ? 'cherry-pick' : inProgress, `--${operation}`];
+      default:
+        return null;
+    }
+  }
+
+  private async getOperationInProgress(git: SimpleGit): Promise<GitIntegrationResult['operation'] | null> {
+    const markers: Array<[string, GitIntegrationResult['operation']]> = [
+      ['rebase-merge', 'rebase'],
+      ['rebase-apply', 'rebase'],
+      ['CHERRY_PICK_HEAD', 'cherry_pick'],
+      ['MERGE_HEAD', 'merge']
+    ];
+    const root = (await git.revparse(['--show-toplevel'])).trim();
+
+    for (const [marker, operation] of markers) {
+      const gitPath = (await git.raw(['rev-parse', '--path-format=absolute', '--git-path', marker])).trim();
+      if (fs.existsSync(path.resolve(root, gitPath))) {
+        return operation;
+      }
+    }
+    return null;
+  }
+
+  private async getConflicts(git: SimpleGit): Promise<GitConflictFile[]> {
+    const status = await git.status();
+    const root = (await git.revparse(['--show-toplevel'])).trim();
+
+    return status.conflicted.map(file => {
+      const entry = status.files.find(candidate => candidate.path === file);
+      const fullPath = path.join(root, file);
+      return {
+        file,
+        status: entry ? `${entry.index}${entry.working_dir}` : 'UU',
+        hunks: fs.existsSync(fullPath) ? this.parseConflictHunks(fs.readFileSync(fullPath, 'utf-8')) : []
+      };
+    });
+  }
+
+  private parseConflictHunks(content: string): GitConflictHunk[] {
+    const hunks: GitConflictHunk[] = [];
+    let hunk: GitConflictHunk | null = null;
+    let side: GitConflictSide | null = null;
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (line.startsWith('<<<<<<<')) {
+        hunk = {
+          startLine: index + 1,
+          endLine: index + 1,
+          ours: { label: line.slice(7).trim(), lines: [] },
+          theirs: { label: '', lines: [] }
+        };
+        side = hunk.ours;
+      } else if (!hunk || !side) {
+        return;
+      } else if (line.startsWith('|||||||') && side === hunk.ours) {
+        hunk.base = { label: line.slice(7).trim(), lines: [] };
+        side = hunk.base;
+      } else if (line === '=======' && side !== hunk.theirs) {
+        side = hunk.theirs;
+      } else if (line.startsWith('>>>>>>>') && side === hunk.theirs) {
+        hunk.theirs.label = line.slice(7).trim();
+        hunk.endLine = index + 1;
+        hunks.push(hunk);
+        hunk = null;
+        side = null;
+      } else {
+        side.lines.push(line);
+      }
+    });
+
+    return hunks;
+  }
+
+  private formatIntegration(result: GitIntegrationResult): string {
+    const name = result.operation.replace('_', '-');
+    if (result.status !== 'conflicts') {
+      return result.output || (result.status === 'aborted' ? `Aborted ${name}` : `Completed ${name}`);
+    }
+
+    const count = result.conflicts.length;
+    const lines = [`CONFLICT: ${name} stopped with ${count} conflicted file${count === 1 ? '' : 's'}`, ''];
+    for (const conflict of result.conflicts) {
+      lines.push(`${conflict.file} (${conflict.status})`);
+      if (conflict.hunks.length === 0) {
+        lines.push('  no conflict markers, resolve the whole file');
+      }
+      for (const hunk of conflict.hunks) {
+        lines.push(`  lines ${hunk.startLine}-${hunk.endLine}:`);
+        lines.push(`    <<<<<<< ${hunk.ours.label}`, ...hunk.ours.lines.map(line => `    ${line}`));
+        if (hunk.base) {
+          lines.push(`    ||||||| ${hunk.base.label}`, ...hunk.base.lines.map(line => `    ${line}`));
+        }
+        lines.push('    =======', ...hunk.theirs.lines.map(line => `    ${line}`), `    >>>>>>> ${hunk.theirs.label}`);
+      }
+      lines.push('');
+    }
+
+    lines.push(result.operation === 'stash_pop'
+      ? 'Resolve the conflicts and add the files; the stash entry was kept.'
+      : 'Resolve the conflicts, add the files and run continue, or run abort.');
+    return lines.join('\n');
+  }
+
+  private toStashEntries(log: LogResult): GitStashEntry[] {
+    return log.all.map((entry, index) => ({
+      index,
+      ref: `stash@{${index}}`,
+      hash: entry.hash,
+      date: entry.date,
+      message: entry.message
+    }));
+  }
+
+  private parseLineLog(output: string): GitLineCommit[] {
+    return output.split('\x1e').filter(record => record.trim()).map(record => {
+      const [hash, name, email, date, refs, message, body, diff = ''] = record.split('\x1f');
+      return { hash, date, message, body: body.trim(), refs, author: { name, email }, diff: diff.trim() };
+    });
+  }
+
+  // Commit details are only given the first time a commit appears in porcelain output
+  private parseBlame(porcelain: string): GitBlameLine[] {
+    const commits = new Map<string, Omit<GitBlameLine, 'line' | 'content'>>();
+    const lines: GitBlameLine[] = [];
+    let current: { commit: string; line: number } | null = null;
+
+    for (const row of porcelain.split('\n')) {
+      const header = row.match(/^([0-9a-f]{40,64}) \d+ (\d+)/);
+      if (header) {
+        current = { commit: header[1], line: Number(header[2]) };
+        if (!commits.has(current.commit)) {
+          commits.set(current.commit, { commit: current.commit, author: '', email: '', date: '', summary: '' });
+        }
+        continue;
+      }
+      if (!current) continue;
+
+      const info = commits.get(current.commit)!;
+      if (row.startsWith('\t')) {
+        lines.push({ line: current.line, content: row.slice(1), ...info });
+      } else if (row.startsWith('author ')) {
+        info.author = row.slice('author '.length);
+      } else if (row.startsWith('author-mail ')) {
+        info.email = row.slice('author-mail '.length).replace(/^<|>$/g, '');
+      } else if (row.startsWith('author-time ')) {
+        info.date = new Date(Number(row.slice('author-time '.length)) * 1000).toISOString();
+      } else if (row.startsWith('summary ')) {
+        info.summary = row.slice('summary '.length);
+      }
+    }
+
+    return lines;
+  }
+
+  private formatBlame(blame: GitBlame): string {
+    if (blame.lines.length === 0) {
+      return `No lines to blame in ${blame.file}`;
+    }
+
+    const authorWidth = Math.max(...blame.lines.map(line => line.author.length));
+    const lineWidth = String(blame.lines[blame.lines.length - 1].line).length;
+    const lines = blame.lines.map(line =>
+      `${line.commit.slice(0, 8)} (${line.author.padEnd(authorWidth)} ${line.date.slice(0, 10)} ${String(line.line).padStart(lineWidth)}) ${line.content}`
+    );
+
+    // The commit subjects tell why the lines were changed
+    const commits = new Map(blame.lines.map(line => [line.commit, line]));
+    lines.push('', 'Commits:');
+    for (const commit of commits.values()) {
+      lines.push(`  ${commit.commit.slice(0, 8)} ${commit.date.slice(0, 10)} ${commit.author} <${commit.email}>: ${commit.summary}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatLineHistory(history: GitLineHistory): string {
+    if (history.commits.length === 0) {
+      return `No commits found for ${history.file} (${history.range})`;
+    }
+
+    return history.commits.map(commit =>
+      `${this.formatLog([commit])}\n${commit.diff}\n`
+    ).join('\n');
+  }
+
+  private formatStatus(status: GitStatus): string {
     const lines = [];
     
-    if (status.current) {
-      lines.push(`On branch ${status.current}`);
+    if (status.branch) {
+      lines.push(`On branch ${status.branch}`);
     }
     
     if (status.ahead || status.behind) {
@@ -151,9 +941,9 @@ export class GitTool extends Tool<StringToolOutput, GitToolOptions> {
       status.modified.forEach((file: string) => lines.push(`  modified: ${file}`));
     }
 
-    if (status.not_added && status.not_added.length > 0) {
+    if (status.untracked && status.untracked.length > 0) {
       lines.push('\nUntracked files:');
-      status.not_added.forEach((file: string) => lines.push(`  ${file}`));
+      status.untracked.forEach((file: string) => lines.push(`  ${file}`));
     }
 
     if (lines.length === 1) {
@@ -163,9 +953,9 @@ export class GitTool extends Tool<StringToolOutput, GitToolOptions> {
     return lines.join('\n');
   }
 
-  private formatLog(log: any): string {
-    return log.all.map((commit: any) => {
-      return `commit ${commit.hash}\nAuthor: ${commit.author_name} <${commit.author_email}>\nDate: ${commit.date}\n\n    ${commit.message}\n`;
+  private formatLog(commits: GitCommit[]): string {
+    return commits.map(commit => {
+      return `commit ${commit.hash}\nAuthor: ${commit.author.name} <${commit.author.email}>\nDate: ${commit.date}\n\n    ${commit.message}\n`;
     }).join('\n');
   }
 }
\ No newline at end of file
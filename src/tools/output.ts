@@ -0,0 +1,37 @@
+import { JSONToolOutput, StringToolOutput } from 'beeai-framework/tools/base';
+import { z } from 'zod';
+
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * JSON output of a tool operation: its typed result, or why there is none.
+ */
+export type OperationResult<T = unknown> =
+  | { operation: string; result: T }
+  | { operation: string; error: string };
+
+export type FormattedToolOutput = StringToolOutput | JSONToolOutput<OperationResult>;
+
+// Shared by the input schema of every tool
+export const outputFormatSchema = z.enum(['text', 'json']).optional()
+  .describe('Output format: text (default) for readable prose, or json for {"operation", "result"} with the typed result, or {"operation", "error"}');
+
+/**
+ * The result of an operation, rendered as prose or returned as structured JSON.
+ */
+export function formatResult<T>(
+  format: OutputFormat | undefined,
+  operation: string,
+  result: T,
+  toText: (result: T) => string
+): FormattedToolOutput {
+  return format === 'json'
+    ? new JSONToolOutput<OperationResult>({ operation, result })
+    : new StringToolOutput(toText(result));
+}
+
+export function formatError(format: OutputFormat | undefined, operation: string, error: string): FormattedToolOutput {
+  return format === 'json'
+    ? new JSONToolOutput<OperationResult>({ operation, error })
+    : new StringToolOutput(`Error: ${error}`);
+}